@@ -8,7 +8,9 @@
 // Pipeline per lesson:
 //   1. Parse the .module with the CANONICAL parser (module-parser/, bundled on the fly).
 //   2. Walk activities -> timed video segments (clip durations via ffprobe).
-//   3. Translate all on-screen English to Russian via Gemini (cached in data/ru-cache.json).
+//   3. Translate all on-screen English to Russian via Gemini (cached in data/ru-cache.json;
+//      MODEL_PROVIDER=record|replay + MODEL_CASSETTES=<dir> records / replays the
+//      model calls, see lib/model-provider.js).
 //   4. Copy the lesson's asset folder into public/modules/<id>/.
 //   5. Write data/module-manifest.json (consumed by src/module/).
 //
@@ -23,6 +25,7 @@ import { execFileSync } from "node:child_process";
 import crypto from "node:crypto";
 import { build } from "esbuild";
 import { GoogleGenAI } from "@google/genai";
+import { modelProviderFromConfig } from "../../lib/model-provider.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const ROOT = path.resolve(__dirname, "..");
@@ -45,6 +48,7 @@ const FPS = 30;
 const WIDTH = 1280;
 const HEIGHT = 720;
 const MODEL = process.env.TRANSLATE_MODEL || "gemini-3.5-flash";
+const PROVIDER = modelProviderFromConfig(null);
 
 // ---------------------------------------------------------------------------
 // Timing constants (seconds)
@@ -278,8 +282,8 @@ async function translateAll(lessons) {
   const todo = [...needed];
   if (todo.length) {
     const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) throw new Error("GEMINI_API_KEY not set");
-    const genai = new GoogleGenAI({ apiKey });
+    if (!apiKey && !PROVIDER.offline) throw new Error("GEMINI_API_KEY not set");
+    const genai = apiKey ? new GoogleGenAI({ apiKey }) : null;
     console.log(`Translating ${todo.length} strings via ${MODEL}...`);
     const BATCH = 40;
     for (let i = 0; i < todo.length; i += BATCH) {
@@ -287,12 +291,13 @@ async function translateAll(lessons) {
       let ru;
       for (let attempt = 1; attempt <= 3; attempt++) {
         try {
-          const resp = await genai.models.generateContent({
+          const request = {
             model: MODEL,
             contents: [{ parts: [{ text: `${SYSTEM}\n\nInput JSON array:\n${JSON.stringify(slice)}` }] }],
             config: { responseMimeType: "application/json", temperature: 0.2 },
-          });
-          const text = resp.text.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+          };
+          const reply = await PROVIDER.run(request, async () => (await genai.models.generateContent(request)).text);
+          const text = reply.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
           const arr = JSON.parse(text);
           if (!Array.isArray(arr) || arr.length !== slice.length) throw new Error("length mismatch");
           ru = arr.map(String);
@@ -341,6 +346,8 @@ const TTS_VOICE = "aoede";
 const DEFAULT_TTS_STYLE = "Read the text in a clear, friendly narrator voice, at a calm teaching pace.";
 
 async function ttsToMp3(genai, text, outPath, voice = TTS_VOICE, style = DEFAULT_TTS_STYLE) {
+  // Replay runs have no key: only TTS already in the cache can be used.
+  if (!genai) throw new Error(`TTS not cached and GEMINI_API_KEY not set: "${text.slice(0, 60)}"`);
   const resp = await genai.models.generateContent({
     model: TTS_MODEL,
     systemInstruction: { parts: [{ text: style }] },
@@ -481,8 +488,8 @@ async function main() {
   }
 
   const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) throw new Error("GEMINI_API_KEY not set");
-  const genai = new GoogleGenAI({ apiKey });
+  if (!apiKey && !PROVIDER.offline) throw new Error("GEMINI_API_KEY not set");
+  const genai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
   const parser = await loadParser();
   const lessons = [];
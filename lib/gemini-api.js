@@ -6,6 +6,7 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { createModelProvider } from './model-provider.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -18,6 +19,7 @@ try {
 }
 
 const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+const LIVE_PROVIDER = createModelProvider();
 
 /**
  * Call Gemini API using OpenAI-compatible endpoint
@@ -29,6 +31,8 @@ const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
  * @param {string} options.systemPrompt - Optional system prompt
  * @param {number} options.timeout - Timeout in ms (default: 300000 = 5 min)
  * @param {number} options.thinkingBudget - Gemini thinking budget (OpenAI-compatible extra_body.google.thinking_config.thinking_budget)
+ * @param {Array<{role: 'user'|'assistant', content: string}>} options.history - Earlier turns, sent before `prompt` (for follow-up requests)
+ * @param {Object} options.provider - Model provider from lib/model-provider.js (default: live)
  * @returns {Promise<string>} - The generated text response
  */
 async function callGemini(prompt, options = {}) {
@@ -39,6 +43,8 @@ async function callGemini(prompt, options = {}) {
     systemPrompt = null,
     timeout = 300000,
     thinkingBudget = 0,
+    history = [],
+    provider = LIVE_PROVIDER,
   } = options;
 
   const url = 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions';
@@ -47,6 +53,7 @@ async function callGemini(prompt, options = {}) {
   if (systemPrompt) {
     messages.push({ role: 'system', content: systemPrompt });
   }
+  messages.push(...history);
   messages.push({ role: 'user', content: prompt });
 
   const requestBody = {
@@ -68,39 +75,42 @@ async function callGemini(prompt, options = {}) {
     };
   }
 
-  // Create AbortController for timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${GEMINI_API_KEY}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed with status ${response.status}: ${errorText}`);
-    }
-
-    const data = await response.json();
-    let content = data.choices[0].message.content.trim();
-    
-    return content;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error(`Request timeout after ${timeout / 1000} seconds`);
+  // The provider decides whether this goes to the network, a cassette or a script.
+  return provider.run(requestBody, async () => {
+    // Create AbortController for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${GEMINI_API_KEY}`
+        },
+        body: JSON.stringify(requestBody),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`API request failed with status ${response.status}: ${errorText}`);
+      }
+
+      const data = await response.json();
+      let content = data.choices[0].message.content.trim();
+      
+      return content;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeout / 1000} seconds`);
+      }
+      throw error;
     }
-    throw error;
-  }
+  });
 }
 
 /**
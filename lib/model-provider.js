@@ -0,0 +1,147 @@
+/**
+ * Model Provider Library
+ * Where the replies to model requests come from, so pipelines can run offline
+ *
+ * A provider wraps each model call: `provider.run(request, live)`, where
+ * `request` is the JSON-serializable request (what makes the reply differ)
+ * and `live` performs the real call and resolves to its text reply.
+ *
+ *   live    call the model (the default)
+ *   record  call the model and store the reply as a cassette:
+ *           <cassettes>/<request hash>.json
+ *   replay  serve cassettes only; a request without one is an error, and no
+ *           network call is made
+ *   fake    scripted replies, for unit tests (createFakeProvider)
+ *
+ * Scripts pick the mode from their config ("modelProvider": { "mode",
+ * "cassettes" }) or from MODEL_PROVIDER / MODEL_CASSETTES, which win over the
+ * config (modelProviderFromConfig).
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const PROVIDER_MODES = ['live', 'record', 'replay'];
+
+// Strings longer than this are shortened in a cassette's copy of the request
+// (system prompts, inline audio); the hash still covers them in full.
+const CASSETTE_STRING_MAX = 400;
+
+/**
+ * JSON with object keys sorted, so equal requests serialize (and hash) equally
+ * @param {*} value - Any JSON-serializable value
+ * @returns {string}
+ */
+function stableStringify(value) {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter((k) => value[k] !== undefined).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Cassette key of a request
+ * @param {Object} request - The JSON-serializable request
+ * @returns {string} - sha256 hex digest
+ */
+function requestKey(request) {
+  return crypto.createHash('sha256').update(stableStringify(request)).digest('hex');
+}
+
+function abbreviate(value) {
+  if (typeof value === 'string') {
+    return value.length > CASSETTE_STRING_MAX ? `${value.slice(0, CASSETTE_STRING_MAX)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(abbreviate);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, abbreviate(v)]));
+  }
+  return value;
+}
+
+/**
+ * Create a live, record or replay provider
+ * @param {Object} options
+ * @param {string} options.mode - 'live' | 'record' | 'replay' (default: live)
+ * @param {string} options.cassettes - Cassette directory (record / replay)
+ * @returns {{mode: string, offline: boolean, run: (request: Object, live: () => Promise<string>) => Promise<string>}}
+ */
+function createModelProvider({ mode = 'live', cassettes = null } = {}) {
+  if (!PROVIDER_MODES.includes(mode)) {
+    throw new Error(`Unknown model provider mode "${mode}" (expected ${PROVIDER_MODES.join(', ')})`);
+  }
+  if (mode === 'live') {
+    return { mode, offline: false, run: (request, live) => live() };
+  }
+  if (!cassettes) throw new Error(`Model provider mode "${mode}" needs a cassettes directory`);
+
+  return {
+    mode,
+    offline: mode === 'replay',
+    async run(request, live) {
+      const key = requestKey(request);
+      const file = path.join(cassettes, `${key}.json`);
+      if (mode === 'replay') {
+        if (!fs.existsSync(file)) {
+          throw new Error(`No cassette for this request in ${cassettes} (${key}); record it first with MODEL_PROVIDER=record`);
+        }
+        return JSON.parse(fs.readFileSync(file, 'utf-8')).response;
+      }
+      const response = await live();
+      fs.mkdirSync(cassettes, { recursive: true });
+      const cassette = { key, recordedAt: new Date().toISOString(), request: abbreviate(request), response };
+      fs.writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+      return response;
+    },
+  };
+}
+
+/**
+ * Scripted provider for unit tests: never calls `live`
+ * @param {Array<string|Error>|Function} script - Replies in call order (an Error
+ *   is thrown instead of returned), or (request, index) => reply
+ * @returns {{mode: 'fake', offline: true, calls: Object[], run: Function}} - `calls` collects the requests
+ */
+function createFakeProvider(script) {
+  const calls = [];
+  return {
+    mode: 'fake',
+    offline: true,
+    calls,
+    async run(request) {
+      const index = calls.length;
+      calls.push(request);
+      const reply = typeof script === 'function' ? await script(request, index) : script[index];
+      if (reply === undefined) throw new Error(`Fake model provider has no reply for call ${index + 1}`);
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  };
+}
+
+/**
+ * The provider a script's config asks for; MODEL_PROVIDER / MODEL_CASSETTES
+ * override it
+ * @param {Object|null} config - The config's "modelProvider" entry ({ mode, cassettes })
+ * @param {string} baseDir - Directory a relative config `cassettes` path resolves against
+ * @returns {Object} - A provider (see createModelProvider)
+ */
+function modelProviderFromConfig(config, baseDir = process.cwd()) {
+  const mode = process.env.MODEL_PROVIDER || config?.mode || 'live';
+  const cassettes = process.env.MODEL_CASSETTES
+    ? path.resolve(process.cwd(), process.env.MODEL_CASSETTES)
+    : config?.cassettes
+      ? path.resolve(baseDir, config.cassettes)
+      : null;
+  return createModelProvider({ mode, cassettes });
+}
+
+export {
+  createModelProvider,
+  createFakeProvider,
+  modelProviderFromConfig,
+  requestKey,
+};
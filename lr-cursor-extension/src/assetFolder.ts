@@ -0,0 +1,61 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+// Listings are cached per folder (diagnostics and completion ask on every
+// keystroke) and dropped when a watcher sees a file created or deleted there.
+interface FolderListing {
+  files: string[] | null | undefined; // undefined: stale, list again
+  watcher: vscode.FileSystemWatcher;
+}
+
+const listings = new Map<string, FolderListing>();
+
+// Every file in the module's `<moduleBaseName>/` asset folder, relative to it
+// (null when there is no such folder).
+export function listAssetFolder(doc: vscode.TextDocument): string[] | null {
+  const base = path.basename(doc.fileName, ".module");
+  const dir = path.join(path.dirname(doc.fileName), base);
+  let listing = listings.get(dir);
+  if (!listing) {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.dirname(dir), `{${base},${base}/**}`),
+      false,
+      true,
+      false,
+    );
+    const entry: FolderListing = { files: undefined, watcher };
+    const invalidate = () => {
+      entry.files = undefined;
+    };
+    watcher.onDidCreate(invalidate);
+    watcher.onDidDelete(invalidate);
+    listings.set(dir, entry);
+    listing = entry;
+  }
+  if (listing.files === undefined) listing.files = readAssetFolder(dir);
+  return listing.files;
+}
+
+// Drops every cached listing and its watcher (on deactivate).
+export function clearAssetFolderCache(): void {
+  for (const listing of listings.values()) listing.watcher.dispose();
+  listings.clear();
+}
+
+function readAssetFolder(dir: string): string[] | null {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return null;
+  const out: string[] = [];
+  const walk = (d: string, prefix: string) => {
+    for (const ent of fs.readdirSync(d, { withFileTypes: true })) {
+      if (ent.name.startsWith(".")) continue;
+      if (ent.isDirectory()) {
+        walk(path.join(d, ent.name), `${prefix}${ent.name}/`);
+      } else {
+        out.push(`${prefix}${ent.name}`);
+      }
+    }
+  };
+  walk(dir, "");
+  return out;
+}
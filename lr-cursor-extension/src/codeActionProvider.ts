@@ -0,0 +1,51 @@
+import * as vscode from "vscode";
+import { getQuickFix, FIXABLE_CODES, TextEdit } from "./parser/diagnostics";
+
+/**
+ * Quick fixes for lr-module diagnostics. The fixes themselves are declared
+ * next to the lint rules (module_diagnostics.ts); this only maps them onto
+ * VS Code edits.
+ */
+export class ModuleCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const text = document.getText();
+
+    for (const diag of context.diagnostics) {
+      const code = typeof diag.code === "string" ? diag.code : undefined;
+      if (diag.source !== "lr-module" || !code || !FIXABLE_CODES.has(code)) continue;
+
+      const fix = getQuickFix(text, {
+        severity: diag.severity === vscode.DiagnosticSeverity.Error ? "error" : "warning",
+        line: diag.range.start.line + 1,
+        message: diag.message,
+        code,
+      });
+      if (!fix) continue;
+
+      const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diag];
+      action.isPreferred = true;
+      action.edit = new vscode.WorkspaceEdit();
+      for (const e of fix.edits) {
+        action.edit.replace(document.uri, toRange(document, e), e.newText);
+      }
+      actions.push(action);
+    }
+
+    return actions;
+  }
+}
+
+function toRange(document: vscode.TextDocument, e: TextEdit): vscode.Range {
+  // Positions past the last line clamp to the document end.
+  return document.validateRange(
+    new vscode.Range(e.startLine - 1, e.startCol, e.endLine - 1, e.endCol),
+  );
+}
@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import {
+  getCompletions,
+  CompletionItem,
+} from "./parser/module_language";
+import { listAssetFolder } from "./assetFolder";
+import { toRange } from "./outlineProvider";
+
+const COMPLETION_KINDS: Record<CompletionItem["kind"], vscode.CompletionItemKind> = {
+  marker: vscode.CompletionItemKind.Keyword,
+  field: vscode.CompletionItemKind.Field,
+  flag: vscode.CompletionItemKind.Constant,
+  voice: vscode.CompletionItemKind.EnumMember,
+  speaker: vscode.CompletionItemKind.Variable,
+  option: vscode.CompletionItemKind.Value,
+  asset: vscode.CompletionItemKind.File,
+};
+
+// Context-aware completion from the shared editor features
+// (module_language.ts): fields/flags of the enclosing block, voices, speakers,
+// ANSWER option ids and asset file names.
+export class ModuleCompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = ["$", "{", "|", ",", ":", "="];
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.CompletionItem[] {
+    const assetFiles =
+      document.uri.scheme === "file" ? listAssetFolder(document) : null;
+    return getCompletions(
+      document.getText(),
+      position.line + 1,
+      position.character,
+      { assetFiles: assetFiles ?? [] },
+    ).map((c) => {
+      const item = new vscode.CompletionItem(c.label, COMPLETION_KINDS[c.kind]);
+      item.detail = c.detail;
+      item.insertText = c.insertText;
+      item.range = toRange(c.range);
+      return item;
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import * as vscode from "vscode";
+import { getDefinition, getReferences } from "./parser/module_language";
+import { toRange } from "./outlineProvider";
+
+// Go-to-definition (speaker → VOICE declaration, ANSWER id → OPTION) from the
+// shared editor features (module_language.ts).
+export class ModuleDefinitionProvider implements vscode.DefinitionProvider {
+  provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.Location | null {
+    const r = getDefinition(
+      document.getText(),
+      position.line + 1,
+      position.character,
+    );
+    return r ? new vscode.Location(document.uri, toRange(r)) : null;
+  }
+}
+
+// Find all references: every line a speaker speaks (+ their declaration).
+export class ModuleReferenceProvider implements vscode.ReferenceProvider {
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+  ): vscode.Location[] {
+    return getReferences(
+      document.getText(),
+      position.line + 1,
+      position.character,
+      context.includeDeclaration,
+    ).map((r) => new vscode.Location(document.uri, toRange(r)));
+  }
+}
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { ModulePreviewPanel } from "./previewPanel";
-import { lintModuleText } from "./parser/diagnostics";
+import { lintModuleText, lintModuleAssets } from "./parser/diagnostics";
 import { CourseSidebarProvider, CourseItem } from "./sidebarProvider";
 import { signIn, getGiteaCredentials, GiteaCredentials } from "./config";
 import {
@@ -12,6 +13,21 @@ import {
 } from "./gitOps";
 import { forkRepo, createRepo } from "./giteaClient";
 import { ModuleDocumentSymbolProvider } from "./outlineProvider";
+import { ModuleFoldingRangeProvider } from "./foldingRangeProvider";
+import { ModuleCodeActionProvider } from "./codeActionProvider";
+import { ModuleCompletionProvider } from "./completionProvider";
+import { ModuleHoverProvider } from "./hoverProvider";
+import { ModuleFormattingProvider } from "./formattingProvider";
+import {
+  ModuleDefinitionProvider,
+  ModuleReferenceProvider,
+} from "./definitionProvider";
+import { ModuleRenameProvider, renameSpeakerInCourse } from "./renameProvider";
+import {
+  ModuleSemanticTokensProvider,
+  semanticTokensLegend,
+} from "./semanticTokensProvider";
+import { clearAssetFolderCache, listAssetFolder } from "./assetFolder";
 import { checkForUpdates } from "./updater";
 
 const diagnosticCollection =
@@ -20,6 +36,7 @@ let statusBarItem: vscode.StatusBarItem;
 
 export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(diagnosticCollection);
+  context.subscriptions.push(new vscode.Disposable(clearAssetFolderCache));
 
   checkForUpdates();
 
@@ -49,6 +66,84 @@ export function activate(context: vscode.ExtensionContext): void {
     ),
   );
 
+  // --- Folding ---
+  context.subscriptions.push(
+    vscode.languages.registerFoldingRangeProvider(
+      { language: "module" },
+      new ModuleFoldingRangeProvider(),
+    ),
+  );
+
+  // --- Semantic highlighting ---
+  context.subscriptions.push(
+    vscode.languages.registerDocumentSemanticTokensProvider(
+      { language: "module" },
+      new ModuleSemanticTokensProvider(),
+      semanticTokensLegend,
+    ),
+  );
+
+  // --- Completion ---
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      { language: "module" },
+      new ModuleCompletionProvider(),
+      ...ModuleCompletionProvider.triggerCharacters,
+    ),
+  );
+
+  // --- Hover ---
+  context.subscriptions.push(
+    vscode.languages.registerHoverProvider(
+      { language: "module" },
+      new ModuleHoverProvider(),
+    ),
+  );
+
+  // --- Definitions / references ---
+  context.subscriptions.push(
+    vscode.languages.registerDefinitionProvider(
+      { language: "module" },
+      new ModuleDefinitionProvider(),
+    ),
+    vscode.languages.registerReferenceProvider(
+      { language: "module" },
+      new ModuleReferenceProvider(),
+    ),
+  );
+
+  // --- Rename ---
+  context.subscriptions.push(
+    vscode.languages.registerRenameProvider(
+      { language: "module" },
+      new ModuleRenameProvider(),
+    ),
+    vscode.commands.registerCommand(
+      "lr.renameSpeakerInCourse",
+      renameSpeakerInCourse,
+    ),
+  );
+
+  // --- Formatting ---
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider(
+      { language: "module" },
+      new ModuleFormattingProvider(),
+    ),
+  );
+
+  // --- Quick fixes ---
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      { language: "module" },
+      new ModuleCodeActionProvider(),
+      {
+        providedCodeActionKinds:
+          ModuleCodeActionProvider.providedCodeActionKinds,
+      },
+    ),
+  );
+
   // --- Auth ---
   context.subscriptions.push(
     vscode.commands.registerCommand("lr.signIn", async () => {
@@ -351,6 +446,18 @@ export function activate(context: vscode.ExtensionContext): void {
     }),
   );
 
+  // --- Preview follows the cursor ---
+  context.subscriptions.push(
+    vscode.window.onDidChangeTextEditorSelection((e) => {
+      if (isModuleFile(e.textEditor.document)) {
+        ModulePreviewPanel.currentPanel?.syncToLine(
+          e.textEditor.document,
+          e.selections[0].active.line + 1,
+        );
+      }
+    }),
+  );
+
   // --- Auto-open preview when .module file is opened ---
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument((doc) => {
@@ -417,7 +524,19 @@ function isModuleFile(doc: vscode.TextDocument): boolean {
 }
 
 function updateDiagnostics(doc: vscode.TextDocument): void {
-  const results = lintModuleText(doc.getText());
+  const text = doc.getText();
+  const results = [...lintModuleText(text)];
+  // The asset pass needs the folder on disk; untitled documents (and other
+  // non-file schemes) have none and skip it. Dirty files still get it.
+  if (doc.uri.scheme === "file") {
+    results.push(
+      ...lintModuleAssets(
+        text,
+        listAssetFolder(doc),
+        path.basename(doc.fileName, ".module"),
+      ),
+    );
+  }
   const diags = results.map((d) => {
     const line = Math.max(0, d.line - 1);
     const range = doc.lineAt(Math.min(line, doc.lineCount - 1)).range;
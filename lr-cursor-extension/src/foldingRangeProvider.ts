@@ -0,0 +1,12 @@
+import * as vscode from "vscode";
+import { getFoldingRanges } from "./parser/module_language";
+
+// Folds lessons, activities and SELECT / PRODUCE items (getFoldingRanges), so
+// "Fold All" leaves a long module as its outline.
+export class ModuleFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return getFoldingRanges(document.getText()).map(
+      (r) => new vscode.FoldingRange(r.startLine - 1, r.endLine - 1),
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import * as vscode from "vscode";
+import { getFormattingEdits } from "./parser/module_language";
+import { toRange } from "./outlineProvider";
+
+// Format Document / format-on-save with the canonical formatter
+// (formatModuleText) — the same output as `npm run format-modules`.
+export class ModuleFormattingProvider
+  implements vscode.DocumentFormattingEditProvider
+{
+  provideDocumentFormattingEdits(
+    document: vscode.TextDocument,
+  ): vscode.TextEdit[] {
+    return getFormattingEdits(document.getText()).map(
+      (e) => new vscode.TextEdit(toRange(e), e.newText),
+    );
+  }
+}
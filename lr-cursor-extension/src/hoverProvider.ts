@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import * as cp from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { getHover, assetAt } from "./parser/module_language";
+import { toRange } from "./outlineProvider";
+
+/**
+ * Hover cards from the shared editor features (module_language.ts). This side
+ * only supplies what needs the disk: asset URIs and clip lengths (ffprobe,
+ * cached per file + mtime).
+ */
+export class ModuleHoverProvider implements vscode.HoverProvider {
+  private durations = new Map<string, number | null>();
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | null> {
+    const text = document.getText();
+    const line = position.line + 1;
+    const onDisk = document.uri.scheme === "file";
+
+    const asset = assetAt(text, line, position.character);
+    const assetPath = onDisk && asset ? resolveAsset(document, asset.file) : null;
+    if (asset?.kind === "audio" && assetPath) {
+      await this.probe(assetPath);
+    }
+
+    const hover = getHover(text, line, position.character, {
+      assetUri: (file) => {
+        const p = onDisk ? resolveAsset(document, file) : null;
+        return p ? vscode.Uri.file(p).toString() : null;
+      },
+      audioDuration: (file) => {
+        const p = onDisk ? resolveAsset(document, file) : null;
+        return p ? (this.durations.get(cacheKey(p)) ?? null) : null;
+      },
+    });
+    if (!hover) return null;
+    return new vscode.Hover(
+      new vscode.MarkdownString(hover.contents),
+      toRange(hover.range),
+    );
+  }
+
+  private async probe(file: string): Promise<void> {
+    const key = cacheKey(file);
+    if (this.durations.has(key)) return;
+    this.durations.set(key, await ffprobeDuration(file));
+  }
+}
+
+// `{file}` → path in the module's `<moduleBaseName>/` folder (null if absent).
+// Same resolution as lintModuleAssets: `<moduleBaseName>/x` and `./x` both work.
+function resolveAsset(doc: vscode.TextDocument, file: string): string | null {
+  const base = path.basename(doc.fileName, ".module");
+  let rel = file.replace(/^(\.\/)+/, "");
+  if (rel.startsWith(`${base}/`)) rel = rel.slice(base.length + 1);
+  const p = path.join(path.dirname(doc.fileName), base, rel);
+  return fs.existsSync(p) ? p : null;
+}
+
+function cacheKey(file: string): string {
+  return `${file}:${fs.statSync(file).mtimeMs}`;
+}
+
+function ffprobeDuration(file: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    cp.execFile(
+      "ffprobe",
+      [
+        "-v",
+        "error",
+        "-show_entries",
+        "format=duration",
+        "-of",
+        "default=noprint_wrappers=1:nokey=1",
+        file,
+      ],
+      { timeout: 5000 },
+      (err, stdout) => {
+        const d = err ? NaN : parseFloat(stdout.trim());
+        resolve(Number.isFinite(d) ? d : null);
+      },
+    );
+  });
+}
@@ -12,6 +12,10 @@
  */
 
 import { ebnfSpec } from "./module_spec";
+import { parseModuleCst, generateId, cstItemFields, ModuleCst, CstLine, CstMarkerLine, CstAsset, CstActivity } from "./module_cst";
+import { parseModuleFileTolerant } from "./module_parser";
+import { normalizeAnswer } from "./module_answers";
+import type { SelectActivity, SelectOption, ProduceActivity } from "./module_types";
 
 export type Severity = "error" | "warning";
 
@@ -31,7 +35,7 @@ const flagNames = new Set(ebnfSpec.flags);
 const idNoSpacesRe = /^[A-Za-z][A-Za-z0-9_]*$/;
 
 // Valid Gemini TTS voices (from dioco-base/src/modules/tts_gemini.ts)
-const VALID_GEMINI_VOICES = new Set([
+export const VALID_GEMINI_VOICES = new Set([
   "Zephyr", "Puck", "Charon", "Kore", "Fenrir", "Leda", "Orus", "Aoede",
   "Callirrhoe", "Autonoe", "Enceladus", "Iapetus", "Umbriel", "Algieba",
   "Despina", "Erinome", "Algenib", "Rasalgethi", "Laomedeia", "Achernar",
@@ -89,31 +93,11 @@ function analyzeInlineAssets(value: string): AssetFacts {
   return { total, trailing, audio, image };
 }
 
-// Screenplay speaker line: `Jim: Hello.` — id must contain a lowercase letter
-// (ALL-CAPS identifiers are reserved for field names).
-const SPEAKER_LINE_RE = /^([A-Za-z][A-Za-z0-9_]*):\s*(.*)$/;
-function matchSpeakerLine(s: string): { speaker: string; rest: string } | null {
-  const m = s.match(SPEAKER_LINE_RE);
-  if (m && /[a-z]/.test(m[1])) return { speaker: m[1], rest: m[2] };
-  return null;
-}
-
-function generateId(s: string): string {
-  return s.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
-}
-
-// A marker title line may carry a single trailing block image:
-// `$DIALOGUE Title {page.jpg}` / `$MODULE Lesson 1 {cover.jpg}`. Peel it so the
-// title text (used for ids) matches what the parser stores. Titles never carry audio.
-function peelTitleImage(raw: string): { title: string; image: string | null } {
-  const m = raw.trimEnd().match(/^(.*?)\s*\{\s*([^{}]+?)\s*\}$/);
-  if (m && isImageFile(m[2])) return { title: m[1].trim(), image: m[2].split("@")[0].trim() };
-  return { title: raw.trim(), image: null };
-}
-
 export function lintModuleText(text: string): Diagnostic[] {
   const diags: Diagnostic[] = [];
-  const lines = String(text ?? "").split("\n");
+  // Line classification (markers / fields / flags / speaker lines) comes from
+  // the shared CST, so the linter sees exactly the structure the parser does.
+  const cst = parseModuleCst(text);
 
   let sawModuleMarker = false;
   let sawAnySectionMarker = false;
@@ -152,22 +136,20 @@ export function lintModuleText(text: string): Diagnostic[] {
     prodItem = null;
   };
 
-  for (let i = 0; i < lines.length; i++) {
-    const lineNo = i + 1;
-    const raw = lines[i];
-    const trimmedEnd = raw.trimEnd();
+  for (const node of cst.lines) {
+    const lineNo = node.line;
+    const trimmedEnd = node.text.trimEnd();
     const trimmed = trimmedEnd.trim();
 
-    if (!trimmed) {
+    if (node.kind === "blank") {
       hadBlankBefore = true;
       continue;
     }
-    if (trimmed.startsWith("#")) continue; // comments are transparent
+    if (node.kind === "comment") continue; // comments are transparent
 
     // EBNF note: section markers and field names must start at column 0
-    const startsWithWs = raw.length > 0 && (raw[0] === " " || raw[0] === "\t");
-    if (startsWithWs) {
-      const t = raw.trimStart();
+    if (node.indent > 0) {
+      const t = trimmed;
       if (t.startsWith("$")) {
         push("error", lineNo, "Section marker must start at column 0 (no leading whitespace).", "section-indent");
       } else if (/^[A-Z_]+:/.test(t)) {
@@ -176,7 +158,7 @@ export function lintModuleText(text: string): Diagnostic[] {
     }
 
     // Section markers
-    if (trimmedEnd.startsWith("$")) {
+    if (node.kind === "marker") {
       sawAnySectionMarker = true;
       hadBlankBefore = true; // a marker is a natural separator
 
@@ -184,16 +166,14 @@ export function lintModuleText(text: string): Diagnostic[] {
         push("error", lineNo, "Section markers must not use a colon (use `$LESSON Title`, not `$LESSON: Title`).", "section-colon");
       }
 
-      const m = trimmedEnd.match(/^\$(\w+)(?:\s+(.*))?$/);
-      if (!m) {
+      if (!node.name) {
         push("warning", lineNo, "Unrecognized section marker format.", "section-format");
         continue;
       }
-      const marker = m[1];
-      // A trailing {image} on the title line is the block-scoped image; peel it
-      // off so the title text (used for ids) matches what the parser stores.
-      const rawTitle = (m[2] ?? "").trim();
-      const { title, image: markerImage } = peelTitleImage(rawTitle);
+      const marker = node.name;
+      // A trailing {image} on the title line is the block-scoped image; the CST
+      // peels it off so the title text (used for ids) matches the parser's.
+      const { rawTitle, title, image: markerImage } = node;
       if (/\}\s*$/.test(rawTitle) && !markerImage) {
         push("warning", lineNo, "Only a single trailing {image} may ride a marker title line; clips/audio belong on content lines.", "title-asset-invalid");
       }
@@ -237,8 +217,8 @@ export function lintModuleText(text: string): Diagnostic[] {
       continue;
     }
 
-    // Flag lines (no colon, no value): REPEAT / MULTI / AUDIO_ONLY
-    if (flagNames.has(trimmed)) {
+    // Flag lines (no colon, no value): REPEAT / MULTI / SHOW_PROMPT
+    if (node.kind === "flag" && flagNames.has(node.name)) {
       if (trimmed === "REPEAT" && currentActivity !== "DIALOGUE" && currentActivity !== "SELECT" && currentActivity !== "PRODUCE") {
         push("warning", lineNo, "REPEAT is only meaningful inside $DIALOGUE, $SELECT, or $PRODUCE.", "repeat-outside-dialogue");
       }
@@ -253,7 +233,7 @@ export function lintModuleText(text: string): Diagnostic[] {
     }
 
     // Legacy flag from the inverted default: hidden prompts are now the norm.
-    if (trimmed === "AUDIO_ONLY") {
+    if (node.kind === "content" && trimmed === "AUDIO_ONLY") {
       push("error", lineNo, "AUDIO_ONLY was removed — hidden PROMPT text is now the DEFAULT. Use SHOW_PROMPT when the book printed the stimulus.", "legacy-audio-only");
       hadBlankBefore = false;
       continue;
@@ -261,7 +241,7 @@ export function lintModuleText(text: string): Diagnostic[] {
 
     // EXAMPLE marker (select/produce) — belongs to the upcoming item, so it
     // does not consume the blank-line separator.
-    if (ebnfSpec.exampleMarker && trimmed === ebnfSpec.exampleMarker) {
+    if (node.kind === "flag" && node.name === ebnfSpec.exampleMarker) {
       if (currentActivity !== "SELECT" && currentActivity !== "PRODUCE") {
         push("warning", lineNo, "EXAMPLE marker is only meaningful inside $SELECT or $PRODUCE.", "example-outside-item");
       } else {
@@ -271,10 +251,9 @@ export function lintModuleText(text: string): Diagnostic[] {
     }
 
     // Field lines
-    const fm = trimmedEnd.match(/^([A-Z_]+):\s*(.*)?$/);
-    if (fm) {
-      const field = fm[1];
-      const value = (fm[2] ?? "").trim();
+    if (node.kind === "field") {
+      const field = node.name;
+      const value = node.value;
       const blankBefore = hadBlankBefore;
       hadBlankBefore = false;
 
@@ -417,21 +396,19 @@ export function lintModuleText(text: string): Diagnostic[] {
     hadBlankBefore = false;
 
     // Screenplay speaker line inside $DIALOGUE: `Jim: Hello.`
-    if (currentActivity === "DIALOGUE") {
-      const sp = matchSpeakerLine(trimmedEnd);
-      if (sp) {
-        const a = analyzeInlineAssets(sp.rest);
-        if (a.total > a.trailing) push("warning", lineNo, "Inline {assets} must sit at the END of the line to be attached.", "asset-not-trailing");
-        if (a.audio > 1) push("warning", lineNo, "Multiple inline clips on one line; only ONE audio clip is attached.", "multiple-inline-clips");
-        if (a.image > 1) push("warning", lineNo, "Multiple inline images on one line; only ONE image is attached.", "multiple-inline-images");
-        if (!sp.rest.trim()) push("warning", lineNo, `Speaker line for "${sp.speaker}" has no text.`, "speaker-empty-line");
-        // "Narrator" is conventional and falls back to VOICE_DEFAULT / VOICE_INTRO.
-        if (declaredSpeakers.size > 0 && sp.speaker.toLowerCase() !== "narrator" && !declaredSpeakers.has(sp.speaker.toLowerCase()) && !warnedSpeakers.has(sp.speaker.toLowerCase())) {
-          warnedSpeakers.add(sp.speaker.toLowerCase());
-          push("warning", lineNo, `Speaker "${sp.speaker}" has no VOICE declaration (typo? or add \`VOICE: ${sp.speaker} | <VoiceName>\`).`, "speaker-undeclared");
-        }
-        continue;
+    if (node.kind === "speaker") {
+      const sp = { speaker: node.speaker, rest: node.value };
+      const a = analyzeInlineAssets(sp.rest);
+      if (a.total > a.trailing) push("warning", lineNo, "Inline {assets} must sit at the END of the line to be attached.", "asset-not-trailing");
+      if (a.audio > 1) push("warning", lineNo, "Multiple inline clips on one line; only ONE audio clip is attached.", "multiple-inline-clips");
+      if (a.image > 1) push("warning", lineNo, "Multiple inline images on one line; only ONE image is attached.", "multiple-inline-images");
+      if (!sp.rest.trim()) push("warning", lineNo, `Speaker line for "${sp.speaker}" has no text.`, "speaker-empty-line");
+      // "Narrator" is conventional and falls back to VOICE_DEFAULT / VOICE_INTRO.
+      if (declaredSpeakers.size > 0 && sp.speaker.toLowerCase() !== "narrator" && !declaredSpeakers.has(sp.speaker.toLowerCase()) && !warnedSpeakers.has(sp.speaker.toLowerCase())) {
+        warnedSpeakers.add(sp.speaker.toLowerCase());
+        push("warning", lineNo, `Speaker "${sp.speaker}" has no VOICE declaration (typo? or add \`VOICE: ${sp.speaker} | <VoiceName>\`).`, "speaker-undeclared");
       }
+      continue;
     }
 
     // Raw content line
@@ -469,6 +446,9 @@ export function lintModuleText(text: string): Diagnostic[] {
       push("error", 1, "Missing required header field: HOME_LANG_G (or legacy USER_LANG_G)", "missing-home-lang");
   }
 
+  // Second layer: rules over the parsed activities.
+  diags.push(...lintModuleSemantics(text));
+
   return diags.sort((a, b) =>
     a.severity === b.severity ? a.line - b.line : a.severity === "error" ? -1 : 1,
   );
@@ -529,3 +509,368 @@ function validateVoiceField(
     }
   }
 }
+
+// ---------------------------------------------------------------------------
+// Asset pass: checks inline {file} tokens against the module's asset folder
+// (`<moduleBaseName>/` next to the .module). The caller lists the folder, so
+// this stays filesystem-free and runs in Node, the extension and the browser.
+// ---------------------------------------------------------------------------
+
+type AssetRef = { file: string; line: number; timing: string | null };
+
+// Every asset the module references: marker images, inline {file} tokens and
+// GRAMMAR markdown images (`![alt](file.png)`). URLs and data URIs are skipped.
+function collectAssetRefs(cst: ModuleCst): AssetRef[] {
+  const refs: AssetRef[] = [];
+  const grammarLines = new Set<number>();
+  for (const lesson of cst.lessons) {
+    for (const a of lesson.activities) {
+      if (a.type === "GRAMMAR") for (const l of a.lines) grammarLines.add(l.line);
+    }
+  }
+  for (const node of cst.lines) {
+    if (node.kind === "marker" && node.image) {
+      refs.push({ file: node.image, line: node.line, timing: null });
+    } else if (node.kind === "field" || node.kind === "speaker") {
+      for (const a of node.assets) {
+        if (a.kind !== "other") refs.push({ file: a.file, line: node.line, timing: a.timing });
+      }
+    } else if (grammarLines.has(node.line)) {
+      for (const m of node.text.matchAll(/!\[[^\]]*\]\(\s*([^)\s]+)[^)]*\)/g)) {
+        refs.push({ file: m[1], line: node.line, timing: null });
+      }
+    }
+  }
+  return refs.filter((r) => !/^(https?:)?\/\//.test(r.file) && !r.file.startsWith("data:"));
+}
+
+/**
+ * Lint the module's asset references.
+ *
+ * `assetFiles`: paths (relative to the `<moduleBaseName>/` folder, `/`-separated)
+ * of every file in that folder, or null when the folder does not exist.
+ * `moduleBaseName` lets `<moduleBaseName>/file.jpg` references resolve too.
+ */
+export function lintModuleAssets(text: string, assetFiles: string[] | null, moduleBaseName?: string): Diagnostic[] {
+  const diags: Diagnostic[] = [];
+  const push = (severity: Severity, line: number, message: string, code: string) => {
+    diags.push({ severity, line, message, code });
+  };
+  const refs = collectAssetRefs(parseModuleCst(text));
+  const files = new Set(assetFiles ?? []);
+  const filesLc = new Map([...files].map((f) => [f.toLowerCase(), f]));
+  const used = new Set<string>();
+  const folder = moduleBaseName ? `${moduleBaseName}/` : "the asset folder";
+
+  // No folder at all: one diagnostic instead of one per reference.
+  const folderMissing = assetFiles === null && refs.length > 0;
+  if (folderMissing) {
+    push("error", 1, `Asset folder ${folder} not found (${refs.length} reference(s) cannot resolve).`, "asset-folder-missing");
+  }
+
+  for (const ref of refs) {
+    // Drafts carry `{clip.mp3@start-end}`; slice-clips.js rewrites them to plain `{clip.mp3}`.
+    if (ref.timing != null) {
+      push("warning", ref.line, `Clip {${ref.file}@${ref.timing}} still carries draft @start-end timing — run slice-clips.js before shipping.`, "asset-timing-leftover");
+    }
+
+    let rel = ref.file.replace(/^(\.\/)+/, "");
+    if (moduleBaseName && rel.startsWith(`${moduleBaseName}/`)) rel = rel.slice(moduleBaseName.length + 1);
+    else if (rel.includes("/")) continue; // outside the asset folder — not ours to check
+    if (folderMissing) continue;
+
+    if (files.has(rel)) {
+      used.add(rel);
+      continue;
+    }
+    const other = filesLc.get(rel.toLowerCase());
+    if (other) {
+      used.add(other);
+      push("error", ref.line, `Asset {${ref.file}} differs in case from ${folder}${other} (breaks on case-sensitive hosts).`, "asset-case-mismatch");
+    } else {
+      push("error", ref.line, `Asset {${ref.file}} not found in ${folder}.`, "asset-missing");
+    }
+  }
+
+  // Only media files count as unused; notes, drafts and sources may live alongside.
+  for (const f of [...files].sort()) {
+    if (!used.has(f) && (AUDIO_EXT_RE.test(f) || IMAGE_EXT_RE.test(f))) {
+      push("warning", 1, `Unused asset ${folder}${f} (not referenced by the module).`, "asset-unused");
+    }
+  }
+
+  return diags.sort((a, b) =>
+    a.severity === b.severity ? a.line - b.line : a.severity === "error" ? -1 : 1,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Semantic pass: checks what the parser BUILDS (SelectActivity /
+// ProduceActivity from parseModuleFileTolerant), not how lines look — answers
+// that name no option, unanswerable CHECK modes, redundant ACCEPTs. Findings are
+// mapped back to source lines by re-walking each activity's CST items with the
+// parser's own item boundaries.
+// ---------------------------------------------------------------------------
+
+/** Source lines of one SELECT / PRODUCE item (parsed item i ↔ spans[i]). */
+type ItemLines = {
+  stimulus: number;
+  /** Last line of each field in the item (ANSWER, RESPONSE, ACCEPT, ...). */
+  fields: Map<string, number>;
+  /** Line of each per-item OPTION id. */
+  options: Map<string, number>;
+};
+
+function itemLines(activity: CstActivity): ItemLines[] {
+  return cstItemFields(activity).map((fields) => ({
+    stimulus: fields[0].line,
+    fields: new Map(fields.map((f) => [f.name, f.line])),
+    options: new Map(fields.filter((f) => f.name === "OPTION").map((f) => [f.value.split("|")[0].trim(), f.line])),
+  }));
+}
+
+const sameOption = (a: SelectOption, b: SelectOption) =>
+  (a.text ?? "") === (b.text ?? "") && a.image === b.image && a.audio === b.audio;
+
+/**
+ * Lint the parsed module: cross-field rules the line linter cannot see.
+ * Runs on the tolerant parse, so it still reports on the activities that parse
+ * while the file has syntax errors.
+ */
+export function lintModuleSemantics(text: string): Diagnostic[] {
+  const diags: Diagnostic[] = [];
+  const push = (severity: Severity, line: number, message: string, code: string) => {
+    diags.push({ severity, line, message, code });
+  };
+  const cst = parseModuleCst(text);
+  const { module } = parseModuleFileTolerant(text);
+
+  for (const [li, lesson] of cst.lessons.entries()) {
+    const parsedActivities = module.lessons[li]?.activities ?? [];
+    for (const a of lesson.activities) {
+      const parsed = parsedActivities.find((x) => x.id === a.id && x.type === a.type);
+      if (!parsed) continue;
+
+      if (parsed.type === "SELECT") {
+        const sel = parsed as SelectActivity;
+        const spans = itemLines(a);
+        sel.items.forEach((item, i) => {
+          const at = spans[i];
+          if (!at) return;
+          const answerLine = at.fields.get("ANSWER") ?? at.stimulus;
+          const own = item.options && item.options.length ? item.options : null;
+          const options = own ?? sel.options;
+
+          for (const id of item.answer) {
+            if (!options.some((o) => o.id === id)) {
+              const where = own ? "this item's OPTIONs" : "the shared OPTIONs";
+              push("error", answerLine, `ANSWER "${id}" matches none of ${where} (${options.map((o) => o.id).join(", ") || "none"}).`, "answer-unknown-option");
+            }
+          }
+          if (item.answer.length > 1 && !sel.multi) {
+            push("warning", answerLine, `Item has ${item.answer.length} answers but the activity is not MULTI; only one can be picked.`, "select-multi-answer");
+          }
+
+          // Per-item options replace the pool for that item. Reusing a pool id
+          // with different content makes the same id mean two things.
+          for (const opt of own ?? []) {
+            const shared = sel.options.find((o) => o.id === opt.id);
+            if (shared && !sameOption(shared, opt)) {
+              push("warning", at.options.get(opt.id) ?? at.stimulus, `OPTION "${opt.id}" redefines the shared option "${opt.id}" (${shared.text ?? shared.image ?? ""}) for this item. Use a new id.`, "select-option-shadowed");
+            }
+          }
+          if (own && sel.options.length && own.length < 2) {
+            push("warning", at.stimulus, "Item declares its own OPTION, which hides the shared options; it offers only one choice.", "select-option-shadowed");
+          }
+        });
+      } else if (parsed.type === "PRODUCE") {
+        const prod = parsed as ProduceActivity;
+        const spans = itemLines(a);
+        prod.items.forEach((item, i) => {
+          const at = spans[i];
+          if (!at) return;
+          if (prod.check === "exact" && item.response == null) {
+            push("error", at.stimulus, "CHECK: exact needs a RESPONSE to compare against.", "produce-exact-no-response");
+          }
+          if (prod.check === "llm" && !item.rubric) {
+            const message = item.response == null
+              ? "CHECK: llm item has neither RUBRIC nor RESPONSE; the grader has nothing to judge against."
+              : "CHECK: llm item has no RUBRIC telling the grader what to accept.";
+            push("warning", at.stimulus, message, "produce-llm-no-rubric");
+          }
+          if (item.response != null && item.accept) {
+            const response = normalizeAnswer(item.response, module.targetLang_G);
+            const seen = new Set<string>();
+            for (const acc of item.accept) {
+              const n = normalizeAnswer(acc, module.targetLang_G);
+              const line = at.fields.get("ACCEPT") ?? at.stimulus;
+              if (n === response) push("warning", line, `ACCEPT "${acc}" repeats the RESPONSE.`, "accept-duplicates-response");
+              else if (seen.has(n)) push("warning", line, `ACCEPT "${acc}" is listed twice.`, "accept-duplicates-response");
+              seen.add(n);
+            }
+          }
+        });
+      }
+    }
+  }
+
+  return diags;
+}
+
+// ---------------------------------------------------------------------------
+// Quick fixes: mechanical rewrites for diagnostics whose cure is unambiguous.
+// Declared here, next to the rules, so every front end (VS Code code actions,
+// the browser preview) offers the same edits.
+// ---------------------------------------------------------------------------
+
+/** Replace `[start, end)` with `newText`. Lines are 1-based, columns 0-based. */
+export type TextEdit = {
+  startLine: number;
+  startCol: number;
+  endLine: number;
+  endCol: number;
+  newText: string;
+};
+
+export type QuickFix = {
+  title: string;
+  code: string;
+  edits: TextEdit[];
+};
+
+type FixContext = { cst: ModuleCst; node: CstLine; diag: Diagnostic };
+
+const replaceLine = (node: CstLine, newText: string): TextEdit => ({
+  startLine: node.line, startCol: 0, endLine: node.line, endCol: node.span.end, newText,
+});
+const insertAfterLine = (node: CstLine, newLine: string): TextEdit => ({
+  startLine: node.line, startCol: node.span.end, endLine: node.line, endCol: node.span.end, newText: `\n${newLine}`,
+});
+// Removes the line together with its line break.
+const deleteLine = (cst: ModuleCst, node: CstLine): TextEdit =>
+  node.line < cst.lines.length
+    ? { startLine: node.line, startCol: 0, endLine: node.line + 1, endCol: 0, newText: "" }
+    : { startLine: node.line - 1, startCol: cst.lines[node.line - 2]?.text.length ?? 0, endLine: node.line, endCol: node.text.length, newText: "" };
+
+const moduleMarker = (cst: ModuleCst): CstMarkerLine | null =>
+  (cst.header.find((l) => l.kind === "marker" && l.name === "MODULE") as CstMarkerLine | undefined) ?? null;
+
+const QUICK_FIXES: Record<string, (ctx: FixContext) => QuickFix | null> = {
+  "section-colon": ({ node }) => {
+    const fixed = node.text.trimEnd().replace(/^(\s*\$[A-Z]+)\s*:\s*/, "$1 ").trimEnd();
+    return { title: "Remove the colon after the section marker", code: "section-colon", edits: [replaceLine(node, fixed)] };
+  },
+
+  "legacy-title-field": ({ cst, node }) => {
+    if (node.kind !== "field" || !node.value) return null;
+    const marker = moduleMarker(cst);
+    const line = `$MODULE ${node.value}${marker?.image ? ` {${marker.image}}` : ""}`;
+    // No $MODULE line yet: the TITLE line becomes it.
+    const edits = marker ? [replaceLine(marker, line), deleteLine(cst, node)] : [replaceLine(node, line)];
+    return { title: "Move TITLE onto the $MODULE line", code: "legacy-title-field", edits };
+  },
+
+  "legacy-speaker-field": ({ cst, node }) => {
+    if (node.kind !== "field" || !node.value) return null;
+    // Speaker ids are alnum/_ and need a lowercase letter (ALL-CAPS is a field).
+    let speaker = node.value.replace(/[^A-Za-z0-9_]/g, "");
+    if (!/^[A-Za-z]/.test(speaker)) return null;
+    if (!/[a-z]/.test(speaker)) speaker = speaker.charAt(0) + speaker.slice(1).toLowerCase();
+    // The LINE the SPEAKER field applied to.
+    const next = cst.lines.slice(node.line).find((l) => l.kind !== "blank" && l.kind !== "comment");
+    if (!next || next.kind !== "field" || next.name !== "LINE") return null;
+    return {
+      title: `Rewrite as \`${speaker}: ${next.value}\``,
+      code: "legacy-speaker-field",
+      edits: [deleteLine(cst, node), replaceLine(next, `${speaker}: ${next.value}`.trimEnd())],
+    };
+  },
+
+  "item-needs-blank-line": ({ cst, node }) => {
+    // An EXAMPLE flag right above the stimulus belongs to the new item.
+    let first = node;
+    for (let prev = cst.lines[first.line - 2]; prev?.kind === "flag" && prev.name === "EXAMPLE"; prev = cst.lines[first.line - 2]) {
+      first = prev;
+    }
+    return {
+      title: "Insert a blank line before this item",
+      code: "item-needs-blank-line",
+      edits: [{ startLine: first.line, startCol: 0, endLine: first.line, endCol: 0, newText: "\n" }],
+    };
+  },
+
+  "missing-format": ({ cst }) => {
+    const marker = moduleMarker(cst);
+    if (!marker) return null;
+    return { title: "Add `FORMAT: 2`", code: "missing-format", edits: [insertAfterLine(marker, "FORMAT: 2")] };
+  },
+
+  "speaker-undeclared": ({ cst, node }) => {
+    if (node.kind !== "speaker") return null;
+    // Suggest a voice no other speaker uses yet; the author can change it.
+    const used = new Set<string>();
+    let anchor: CstLine | null = null;
+    for (const l of cst.header) {
+      if (l.kind === "marker" || l.kind === "field") anchor = l;
+      if (l.kind === "field" && l.name === "VOICE") used.add((l.value.split("|")[1] ?? "").trim().toLowerCase());
+    }
+    if (!anchor) return null;
+    const voice = [...VALID_GEMINI_VOICES].find((v) => !used.has(v.toLowerCase())) ?? "Puck";
+    const decl = `VOICE: ${node.speaker} | ${voice}`;
+    return { title: `Add \`${decl}\``, code: "speaker-undeclared", edits: [insertAfterLine(anchor, decl)] };
+  },
+
+  "asset-not-trailing": ({ node }) => {
+    if (node.kind !== "field" && node.kind !== "speaker") return null;
+    const moved = node.assets.filter((a) => a.kind !== "other");
+    if (!moved.length) return null;
+    // Strip every image/audio token, then re-append them: image first, audio LAST.
+    let text = node.text.slice(node.valueSpan.start, node.valueSpan.end);
+    for (const a of [...moved].reverse()) {
+      const from = a.span.start - node.valueSpan.start;
+      text = text.slice(0, from) + text.slice(a.span.end - node.valueSpan.start);
+    }
+    const token = (a: CstAsset) => node.text.slice(a.span.start, a.span.end);
+    const parts = [
+      text.replace(/\s+/g, " ").trim(),
+      ...moved.filter((a) => a.kind === "image").map(token),
+      ...moved.filter((a) => a.kind === "audio").map(token),
+    ];
+    return {
+      title: "Move inline {assets} to the end of the line",
+      code: "asset-not-trailing",
+      edits: [{ startLine: node.line, startCol: node.valueSpan.start, endLine: node.line, endCol: node.valueSpan.end, newText: parts.filter(Boolean).join(" ") }],
+    };
+  },
+};
+
+/** Codes that have a quick fix (for front ends that mark fixable diagnostics). */
+export const FIXABLE_CODES = new Set(Object.keys(QUICK_FIXES));
+
+/**
+ * The quick fix for a diagnostic produced by lintModuleText(text), if any.
+ * Pass `cst` (parseModuleCst(text)) when asking for many diagnostics of one text.
+ */
+export function getQuickFix(text: string, diag: Diagnostic, cst?: ModuleCst): QuickFix | null {
+  const fix = diag.code ? QUICK_FIXES[diag.code] : undefined;
+  if (!fix) return null;
+  cst ??= parseModuleCst(text);
+  const node = cst.lines[diag.line - 1];
+  return node ? fix({ cst, node, diag }) : null;
+}
+
+/** Apply a fix's edits to `text` (edits must not overlap). */
+export function applyQuickFix(text: string, fix: QuickFix): string {
+  const lines = text.split("\n");
+  const offset = (line: number, col: number) => {
+    let o = 0;
+    for (let i = 0; i < line - 1; i++) o += lines[i].length + 1;
+    return o + col;
+  };
+  const edits = fix.edits
+    .map((e) => ({ start: offset(e.startLine, e.startCol), end: offset(e.endLine, e.endCol), newText: e.newText }))
+    .sort((a, b) => b.start - a.start);
+  let out = text;
+  for (const e of edits) out = out.slice(0, e.start) + e.newText + out.slice(e.end);
+  return out;
+}
@@ -0,0 +1,1120 @@
+// AUTO-SYNCED COPY — DO NOT EDIT.
+// Canonical source: reactor-module-tools/module-parser/module_language.ts
+// To update: edit the canonical file, then run `node module-parser/sync.mjs`.
+
+/**
+ * CANONICAL editor features for .module text — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - lr-cursor-extension/src/parser/module_language.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * Editor-agnostic: plain text in, plain data out. The LSP server
+ * (module-lsp.mjs) and the VS Code extension only map these results onto their
+ * protocol / API types, so every editor gets the same outline, completion,
+ * hover, definitions, references and formatting.
+ *
+ * Positions follow the rest of module-parser: lines 1-based, columns 0-based
+ * (`end` exclusive). Everything is derived from the CST (module_cst.ts).
+ */
+
+import { ebnfSpec } from "./module_spec";
+import {
+  parseModuleCst,
+  findCstActivity,
+  cstItemFields,
+  ModuleCst,
+  CstLine,
+  CstFieldLine,
+  CstSpeakerLine,
+  CstActivity,
+  CstAsset,
+} from "./module_cst";
+import { parseModuleFileTolerant, extractInlineAssets, AUDIO_EXT_RE, IMAGE_EXT_RE } from "./module_parser";
+import { Module, Activity, SelectActivity, ProduceActivity, DialogueActivity, VoiceSpec } from "./module_types";
+import { TextEdit, VALID_GEMINI_VOICES } from "./module_diagnostics";
+
+export type Range = { startLine: number; startCol: number; endLine: number; endCol: number };
+
+const lineRange = (cst: ModuleCst, start: number, end: number): Range => ({
+  startLine: start,
+  startCol: 0,
+  endLine: Math.max(start, end),
+  endCol: cst.lines[Math.max(start, end) - 1]?.text.length ?? 0,
+});
+const nodeRange = (node: CstLine): Range => ({
+  startLine: node.line, startCol: node.span.start, endLine: node.line, endCol: node.span.end,
+});
+
+// =============================================================================
+// SCOPES (what an id on a line refers to — shared by the features below)
+// =============================================================================
+
+// First (stimulus) line of each SELECT / PRODUCE item.
+function itemStarts(activity: CstActivity): number[] {
+  return cstItemFields(activity).map((fields) => fields[0].line);
+}
+
+// First line of the block that `line` heads: the comments (and, for items,
+// EXAMPLE flags) directly above it travel with it. An EXAMPLE flag marks the
+// item below it, so it is taken in across blank lines too.
+function blockStart(cst: ModuleCst, line: number, withExample: boolean): number {
+  const isExample = (l: CstLine | undefined) => withExample && l?.kind === "flag" && l.name === "EXAMPLE";
+  let start = line;
+  for (;;) {
+    let above = start - 1;
+    while (cst.lines[above - 1]?.kind === "blank") above--;
+    if (!isExample(cst.lines[above - 1])) above = start - 1;
+    const prev = cst.lines[above - 1];
+    if (!prev || !(prev.kind === "comment" || isExample(prev))) return start;
+    start = above;
+  }
+}
+
+// Last line of the block running from `start` to `end`, leaving out the blank
+// lines and comments (which head the next block) at its end.
+function blockEnd(cst: ModuleCst, start: number, end: number): number {
+  while (end > start && ["blank", "comment"].includes(cst.lines[end - 1].kind)) end--;
+  return end;
+}
+
+type ItemBlock = {
+  /** The PROMPT / TEMPLATE line that opens the item. */
+  stimulus: CstFieldLine;
+  /** With the comments and EXAMPLE flags directly above the stimulus. */
+  start: number;
+  end: number;
+  isExample: boolean;
+};
+
+// SELECT / PRODUCE items with their line extents. Like the parser, an EXAMPLE
+// flag anywhere after the previous item's stimulus marks the next item.
+function itemBlocks(cst: ModuleCst, activity: CstActivity): ItemBlock[] {
+  const starts = itemStarts(activity);
+  return starts.map((line, i) => {
+    const start = blockStart(cst, line, true);
+    const next = i + 1 < starts.length ? blockStart(cst, starts[i + 1], true) - 1 : activity.endLine;
+    const after = i > 0 ? starts[i - 1] : activity.startLine;
+    return {
+      stimulus: cst.lines[line - 1] as CstFieldLine,
+      start,
+      end: blockEnd(cst, start, next),
+      isExample: activity.lines.some((l) => l.kind === "flag" && l.name === "EXAMPLE" && l.line > after && l.line < line),
+    };
+  });
+}
+
+type DialogueTurn = { node: CstSpeakerLine | CstFieldLine; speaker: string | null };
+
+// `Jim: text` and bare `LINE: text` lines of a DIALOGUE, in order; LINE
+// continues the previous speaker.
+function dialogueTurns(activity: CstActivity): DialogueTurn[] {
+  const turns: DialogueTurn[] = [];
+  let speaker: string | null = null;
+  for (const l of activity.lines) {
+    if (l.kind === "speaker") speaker = l.speaker;
+    else if (l.kind !== "field" || l.name !== "LINE") continue;
+    turns.push({ node: l, speaker });
+  }
+  return turns;
+}
+
+type Declaration = { id: string; range: Range };
+
+// Range of the first `sep`-separated part of a field value (the id in
+// `VOICE: Jim | Puck`, `VOICE_SPEAKER: Jim = Puck`, `OPTION: a | text`).
+function leadingIdRange(node: CstFieldLine, sep: string): Declaration | null {
+  if (!node.value.includes(sep)) return null;
+  const raw = node.value.split(sep)[0];
+  const id = raw.trim();
+  if (!id) return null;
+  const start = node.valueSpan.start + (raw.length - raw.trimStart().length);
+  return { id, range: { startLine: node.line, startCol: start, endLine: node.line, endCol: start + id.length } };
+}
+
+// Speakers declared in the header via VOICE: / VOICE_SPEAKER:, in order.
+function speakerDeclarations(cst: ModuleCst): Declaration[] {
+  const out: Declaration[] = [];
+  for (const l of cst.header) {
+    if (l.kind !== "field") continue;
+    const decl = l.name === "VOICE" ? leadingIdRange(l, "|") : l.name === "VOICE_SPEAKER" ? leadingIdRange(l, "=") : null;
+    if (decl) out.push(decl);
+  }
+  return out;
+}
+
+type OptionDeclaration = Declaration & { text: string };
+
+// OPTION declarations visible from `line` in a SELECT, split like parseSelect:
+// the shared pool (before the first item) and the options of the item `line`
+// belongs to (anywhere up to the next item).
+function optionScopes(activity: CstActivity, line: number): { pool: OptionDeclaration[]; item: OptionDeclaration[] } {
+  const starts = itemStarts(activity);
+  const itemStart = starts.filter((s) => s <= line).pop();
+  const itemEnd = starts.find((s) => s > line) ?? activity.endLine + 1;
+  const pool: OptionDeclaration[] = [];
+  const item: OptionDeclaration[] = [];
+  for (const l of activity.lines) {
+    if (l.kind !== "field" || l.name !== "OPTION") continue;
+    const decl = leadingIdRange(l, "|");
+    if (!decl) continue;
+    const opt = { ...decl, text: l.value.slice(l.value.indexOf("|") + 1).trim() };
+    if (!starts.length || l.line < starts[0]) pool.push(opt);
+    else if (itemStart != null && l.line >= itemStart && l.line < itemEnd) item.push(opt);
+  }
+  return { pool, item };
+}
+
+// =============================================================================
+// DOCUMENT SYMBOLS (outline)
+// =============================================================================
+
+export type ModuleSymbolKind = "module" | "lesson" | "activity" | "item" | "turn";
+
+export interface ModuleSymbol {
+  name: string;
+  /**
+   * Activity type label ("Dialogue", "Select", ...) for activities, "Item 3" /
+   * "Item 3 · EXAMPLE" for items; "" otherwise.
+   */
+  detail: string;
+  kind: ModuleSymbolKind;
+  /** Full extent (marker / first line through the last line of the block). */
+  range: Range;
+  /** The marker line (items: the PROMPT / TEMPLATE line; turns: the speaker). */
+  selectionRange: Range;
+  children: ModuleSymbol[];
+}
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  DIALOGUE: "Dialogue",
+  GRAMMAR: "Grammar",
+  SELECT: "Select",
+  PRODUCE: "Produce",
+  CHAT: "Chat",
+};
+
+const SYMBOL_NAME_MAX = 60;
+
+// Text of a field / speaker line for a label: trailing assets dropped,
+// shortened to SYMBOL_NAME_MAX.
+function labelText(node: CstFieldLine | CstSpeakerLine): string {
+  const trailing = node.assets.find((a) => a.trailing);
+  const text = (trailing ? node.value.slice(0, trailing.span.start - node.valueSpan.start) : node.value).trim();
+  return text.length > SYMBOL_NAME_MAX ? text.slice(0, SYMBOL_NAME_MAX - 1).trimEnd() + "…" : text;
+}
+
+function itemSymbols(cst: ModuleCst, activity: CstActivity): ModuleSymbol[] {
+  return itemBlocks(cst, activity).map((item, i) => {
+    // Name: the prompt, else the template, else the first asset (audio-only
+    // prompts).
+    const fields = activity.lines.filter(
+      (l): l is CstFieldLine =>
+        l.kind === "field" && (l.name === "PROMPT" || l.name === "TEMPLATE") && l.line >= item.start && l.line <= item.end,
+    );
+    const label =
+      fields.map(labelText).find((t) => t) ?? fields.flatMap((f) => f.assets).map((a) => `{${a.file}}`)[0] ?? "";
+    return {
+      name: label || `Item ${i + 1}`,
+      detail: item.isExample ? `Item ${i + 1} · EXAMPLE` : `Item ${i + 1}`,
+      kind: "item",
+      range: lineRange(cst, item.start, item.end),
+      selectionRange: nodeRange(item.stimulus),
+      children: [],
+    };
+  });
+}
+
+function turnSymbols(activity: CstActivity): ModuleSymbol[] {
+  return dialogueTurns(activity).map(({ node, speaker }) => ({
+    name: `${speaker ?? "LINE"}: ${labelText(node) || node.assets.map((a) => `{${a.file}}`).join(" ")}`.trimEnd(),
+    detail: "",
+    kind: "turn",
+    range: nodeRange(node),
+    selectionRange: node.kind === "speaker" ? { ...nodeRange(node), endCol: node.speakerSpan.end } : nodeRange(node),
+    children: [],
+  }));
+}
+
+/**
+ * Outline: $MODULE (the header), lessons, their activities and, below those,
+ * the SELECT / PRODUCE items and DIALOGUE turns. Ranges cover the whole block
+ * (without the blank lines after it), so breadcrumbs follow the cursor.
+ */
+export function getDocumentSymbols(text: string): ModuleSymbol[] {
+  const cst = parseModuleCst(text);
+  const symbols: ModuleSymbol[] = [];
+
+  const moduleMarker = cst.header.find((l) => l.kind === "marker" && l.name === "MODULE");
+  if (moduleMarker && moduleMarker.kind === "marker") {
+    symbols.push({
+      name: moduleMarker.title || "Module",
+      detail: "",
+      kind: "module",
+      range: lineRange(cst, moduleMarker.line, blockEnd(cst, moduleMarker.line, cst.header[cst.header.length - 1].line)),
+      selectionRange: nodeRange(moduleMarker),
+      children: [],
+    });
+  }
+
+  const activitySymbol = (a: CstActivity): ModuleSymbol => ({
+    name: a.marker.title || ACTIVITY_LABELS[a.type],
+    detail: ACTIVITY_LABELS[a.type],
+    kind: "activity",
+    range: lineRange(cst, a.startLine, blockEnd(cst, a.startLine, a.endLine)),
+    selectionRange: nodeRange(a.marker),
+    children:
+      a.type === "SELECT" || a.type === "PRODUCE"
+        ? itemSymbols(cst, a)
+        : a.type === "DIALOGUE"
+          ? turnSymbols(a)
+          : [],
+  });
+
+  for (const lesson of cst.lessons) {
+    const children = lesson.activities.map(activitySymbol);
+    // Activities before any $LESSON sit at the top level.
+    if (!lesson.marker) {
+      symbols.push(...children);
+      continue;
+    }
+    symbols.push({
+      name: lesson.marker.title || "Untitled Lesson",
+      detail: "",
+      kind: "lesson",
+      range: lineRange(cst, lesson.startLine, blockEnd(cst, lesson.startLine, lesson.endLine)),
+      selectionRange: nodeRange(lesson.marker),
+      children,
+    });
+  }
+
+  return symbols;
+}
+
+// =============================================================================
+// FOLDING
+// =============================================================================
+
+export interface FoldingRange {
+  /** The line left visible when folded (marker / PROMPT / TEMPLATE line). */
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Folding for lessons, activities and SELECT / PRODUCE items. Each fold ends
+ * at the block's last line, so the blank line and comments before the next
+ * block stay visible; one-line blocks get no fold.
+ */
+export function getFoldingRanges(text: string): FoldingRange[] {
+  const cst = parseModuleCst(text);
+  const ranges: FoldingRange[] = [];
+  const fold = (startLine: number, endLine: number) => {
+    if (endLine > startLine) ranges.push({ startLine, endLine });
+  };
+
+  for (const lesson of cst.lessons) {
+    if (lesson.marker) fold(lesson.startLine, blockEnd(cst, lesson.startLine, lesson.endLine));
+    for (const a of lesson.activities) {
+      fold(a.startLine, blockEnd(cst, a.startLine, a.endLine));
+      if (a.type !== "SELECT" && a.type !== "PRODUCE") continue;
+      for (const item of itemBlocks(cst, a)) fold(item.stimulus.line, item.end);
+    }
+  }
+  return ranges;
+}
+
+// =============================================================================
+// SOURCE MAP (preview ↔ editor)
+// =============================================================================
+
+export interface SourceBlock {
+  /** The line a preview card links to: marker, PROMPT / TEMPLATE or dialogue line. */
+  line: number;
+  /** Extent in the source; the innermost block containing the cursor is "current". */
+  startLine: number;
+  endLine: number;
+  /** Activities of a lesson; items / dialogue lines of an activity. */
+  children: (SourceBlock | null)[];
+}
+
+/**
+ * Source lines for a parsed module, in the shape of the module itself:
+ * `getSourceMap(text, mod)[i]` is `mod.lessons[i]`, its `children[j]` is
+ * `lessons[i].activities[j]`, and theirs are the activity's `items` /
+ * `lines`. `mod` must come from parsing `text` (tolerantly or not); an entry
+ * is null where the two cannot be matched up.
+ *
+ * Lessons and activities are matched to the CST by id, in order (the tolerant
+ * parser drops broken activities but keeps the order); items and dialogue
+ * lines are split the way parseSelect / parseProduce / parseDialogueLines do.
+ */
+export function getSourceMap(text: string, mod: Module): (SourceBlock | null)[] {
+  const cst = parseModuleCst(text);
+  let li = 0;
+  return mod.lessons.map((lesson) => {
+    while (li < cst.lessons.length && cst.lessons[li].id !== lesson.id) li++;
+    const cstLesson = cst.lessons[li++];
+    if (!cstLesson) return null;
+    let ai = 0;
+    return {
+      line: cstLesson.startLine,
+      startLine: cstLesson.startLine,
+      endLine: blockEnd(cst, cstLesson.startLine, cstLesson.endLine),
+      children: lesson.activities.map((activity) => {
+        while (ai < cstLesson.activities.length && cstLesson.activities[ai].id !== activity.id) ai++;
+        const a = cstLesson.activities[ai++];
+        if (!a) return null;
+        return {
+          line: a.startLine,
+          startLine: a.startLine,
+          endLine: blockEnd(cst, a.startLine, a.endLine),
+          children: activitySourceBlocks(cst, a),
+        };
+      }),
+    };
+  });
+}
+
+function activitySourceBlocks(cst: ModuleCst, a: CstActivity): SourceBlock[] {
+  if (a.type === "SELECT" || a.type === "PRODUCE") {
+    return itemBlocks(cst, a).map((item) => ({
+      line: item.stimulus.line,
+      startLine: item.start,
+      endLine: item.end,
+      children: [],
+    }));
+  }
+  if (a.type !== "DIALOGUE") return [];
+  // Only lines with text become DialogueLines; NOTES / VOCAB below one belong to it.
+  const turns = dialogueTurns(a).filter(({ node }) => extractInlineAssets(node.value).text);
+  return turns.map(({ node }, i) => {
+    const next = i + 1 < turns.length ? turns[i + 1].node.line - 1 : a.endLine;
+    return { line: node.line, startLine: node.line, endLine: blockEnd(cst, node.line, next), children: [] };
+  });
+}
+
+/** The innermost block of `blocks` (a getSourceMap result) containing `line`. */
+export function sourceBlockAt(blocks: (SourceBlock | null)[], line: number): SourceBlock | null {
+  for (const b of blocks) {
+    if (!b || line < b.startLine || line > b.endLine) continue;
+    return sourceBlockAt(b.children, line) ?? b;
+  }
+  return null;
+}
+
+// =============================================================================
+// COMPLETION
+// =============================================================================
+
+export type CompletionKind = "marker" | "field" | "flag" | "voice" | "speaker" | "option" | "asset";
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  detail: string;
+  insertText: string;
+  /** The text being completed (replaced by insertText). */
+  range: Range;
+}
+
+export interface CompletionContext {
+  /** Files in the module's `<moduleBaseName>/` asset folder, for `{` completion. */
+  assetFiles?: string[];
+}
+
+const CONTEXT_FIELDS: Record<string, string[]> = {
+  DIALOGUE: ebnfSpec.dialogueFields,
+  SELECT: ebnfSpec.selectFields,
+  PRODUCE: ebnfSpec.produceFields,
+  GRAMMAR: ebnfSpec.grammarFields,
+  CHAT: ebnfSpec.chatFields,
+};
+
+// Which of ebnfSpec.flags each activity honours (mirrors the parser's handleFlag).
+const CONTEXT_FLAGS: Record<string, string[]> = {
+  DIALOGUE: ebnfSpec.flags.filter((f) => f === "REPEAT"),
+  SELECT: ebnfSpec.flags,
+  PRODUCE: ebnfSpec.flags.filter((f) => f !== "MULTI"),
+};
+
+/**
+ * Completions at `line` (1-based) / `col` (0-based), by context:
+ *   - line start: markers; the enclosing block's fields and flags (ebnfSpec);
+ *     in $DIALOGUE, the speakers declared via VOICE;
+ *   - after `VOICE: X |` (and VOICE_DEFAULT: ...): Gemini voice names;
+ *   - after `ANSWER:`: the item's (else the pool's) option ids;
+ *   - inside `{`: files from the module's asset folder.
+ */
+export function getCompletions(text: string, line: number, col: number, ctx: CompletionContext = {}): CompletionItem[] {
+  const cst = parseModuleCst(text);
+  const node = cst.lines[line - 1];
+  if (!node) return [];
+  const prefix = node.text.slice(0, col);
+  const activity = findCstActivity(cst, line);
+  const from = (startCol: number): Range => ({ startLine: line, startCol, endLine: line, endCol: col });
+  const items: CompletionItem[] = [];
+
+  // Inside an unclosed `{`: asset file names.
+  const brace = prefix.lastIndexOf("{");
+  if (brace >= 0 && brace > prefix.lastIndexOf("}")) {
+    const partial = prefix.slice(brace + 1).trimStart().toLowerCase();
+    for (const f of ctx.assetFiles ?? []) {
+      if (!AUDIO_EXT_RE.test(f) && !IMAGE_EXT_RE.test(f)) continue;
+      if (!f.toLowerCase().startsWith(partial)) continue;
+      items.push({ label: f, kind: "asset", detail: AUDIO_EXT_RE.test(f) ? "audio clip" : "image", insertText: f, range: from(brace + 1) });
+    }
+    return items;
+  }
+
+  // Voice names: `VOICE: Jim | Pu`, `VOICE_DEFAULT: Ko`, `VOICE_SPEAKER: Jim = Pu`.
+  const voice =
+    prefix.match(/^VOICE:\s*[^|]+\|\s*([A-Za-z]*)$/) ??
+    prefix.match(/^VOICE_(?:DEFAULT|INTRO|PROMPT|RESPONSE):\s*([A-Za-z]*)$/) ??
+    prefix.match(/^VOICE_SPEAKER:\s*[^=]+=\s*([A-Za-z]*)$/);
+  if (voice) {
+    const partial = voice[1].toLowerCase();
+    for (const v of VALID_GEMINI_VOICES) {
+      if (v.toLowerCase().startsWith(partial)) {
+        items.push({ label: v, kind: "voice", detail: "Gemini TTS voice", insertText: v, range: from(col - voice[1].length) });
+      }
+    }
+    return items;
+  }
+
+  // Option ids: `ANSWER: a, b`.
+  const answer = prefix.match(/^ANSWER:(?:.*,)?\s*([^,\s]*)$/);
+  if (answer) {
+    if (!activity || activity.type !== "SELECT") return items;
+    const given = prefix.slice(7).split(",").map((s) => s.trim());
+    const { pool, item } = optionScopes(activity, line);
+    for (const o of item.length ? item : pool) {
+      if (o.id.startsWith(answer[1]) && !given.slice(0, -1).includes(o.id)) {
+        items.push({ label: o.id, kind: "option", detail: o.text, insertText: o.id, range: from(col - answer[1].length) });
+      }
+    }
+    return items;
+  }
+
+  // Markers and field names start at column 0.
+  const range = from(0);
+  if (/^\$[A-Z]*$/.test(prefix) || prefix === "") {
+    for (const m of ebnfSpec.markers) {
+      items.push({ label: `$${m}`, kind: "marker", detail: "section marker", insertText: `$${m} `, range });
+    }
+    if (prefix.startsWith("$")) return items;
+  }
+
+  // Screenplay speaker lines: `Jim: ...`.
+  if (activity?.type === "DIALOGUE" && /^[A-Za-z][A-Za-z0-9_]*$|^$/.test(prefix)) {
+    const speakers = [...new Set(speakerDeclarations(cst).map((d) => d.id))];
+    for (const sp of speakers) {
+      if (sp.toLowerCase().startsWith(prefix.toLowerCase())) {
+        items.push({ label: sp, kind: "speaker", detail: "speaker (VOICE)", insertText: `${sp}: `, range });
+      }
+    }
+  }
+  if (!/^[A-Z_]*$/.test(prefix)) return items;
+
+  const inHeader = !activity && !cst.lessons.some((l) => l.startLine <= line);
+  const fields = activity
+    ? CONTEXT_FIELDS[activity.type]
+    : inHeader
+      ? [...ebnfSpec.headerFields, ...ebnfSpec.voiceFields]
+      : [];
+  const where = activity ? `$${activity.type}` : "header";
+  for (const f of fields) {
+    items.push({ label: f, kind: "field", detail: `${where} field`, insertText: `${f}: `, range });
+  }
+  if (activity) {
+    for (const f of CONTEXT_FLAGS[activity.type] ?? []) {
+      items.push({ label: f, kind: "flag", detail: `$${activity.type} flag`, insertText: f, range });
+    }
+    if ((activity.type === "SELECT" || activity.type === "PRODUCE") && ebnfSpec.exampleMarker) {
+      const ex = ebnfSpec.exampleMarker;
+      items.push({ label: ex, kind: "flag", detail: "marks the next item as a worked example", insertText: ex, range });
+    }
+  }
+  return items.filter((i) => i.kind === "speaker" || i.label.startsWith(prefix));
+}
+
+// =============================================================================
+// HOVER
+// =============================================================================
+
+export interface HoverInfo {
+  /** Markdown. */
+  contents: string;
+  range: Range;
+}
+
+/**
+ * What only the editor knows: where an asset lives and how long a clip is.
+ * Both are optional; without them asset hovers show just the file name.
+ */
+export interface HoverContext {
+  /** URI of a file in the module's asset folder, or null if it is not there. */
+  assetUri?: (file: string) => string | null;
+  /** Length of an audio file in seconds, if known. */
+  audioDuration?: (file: string) => number | null;
+}
+
+function describeActivity(a: Activity): string[] {
+  switch (a.type) {
+    case "DIALOGUE":
+      return [`${(a as DialogueActivity).lines.length} line(s)`];
+    case "SELECT": {
+      const s = a as SelectActivity;
+      const own = s.items.filter((i) => i.options && i.options.length).length;
+      const examples = s.items.filter((i) => i.isExample).length;
+      return [
+        `${s.items.length} item(s)`,
+        `${s.options.length} shared option(s)`,
+        ...(own ? [`${own} item(s) with their own options`] : []),
+        ...(examples ? [`${examples} example(s)`] : []),
+        ...(s.multi ? ["MULTI"] : []),
+      ];
+    }
+    case "PRODUCE": {
+      const p = a as ProduceActivity;
+      const examples = p.items.filter((i) => i.isExample).length;
+      return [`${p.items.length} item(s)`, ...(examples ? [`${examples} example(s)`] : []), `INPUT: ${p.input}`, `CHECK: ${p.check}`];
+    }
+    default:
+      return [];
+  }
+}
+
+/** The `{file}` token under the cursor, if any. */
+export function assetAt(text: string, line: number, col: number): CstAsset | null {
+  const node = parseModuleCst(text).lines[line - 1];
+  if (!node || (node.kind !== "field" && node.kind !== "speaker")) return null;
+  return node.assets.find((a) => col >= a.span.start && col < a.span.end) ?? null;
+}
+
+const formatSeconds = (sec: number) => `${sec.toFixed(1)} s`;
+
+function voiceLine(spec: VoiceSpec | null): string {
+  if (!spec) return "_none_";
+  return `\`${spec.voice}\`${spec.prompt ? ` — ${spec.prompt}` : ""}`;
+}
+
+function hoverAsset(asset: CstAsset, ctx: HoverContext): string {
+  const uri = ctx.assetUri?.(asset.file) ?? null;
+  const parts = [`**{${asset.file}${asset.timing ? `@${asset.timing}` : ""}}**`];
+  if (!uri) parts.push("_not found in the asset folder_");
+  if (asset.kind === "audio") {
+    // Draft timings give the clip length directly; otherwise ask the editor.
+    const m = asset.timing?.match(/^([\d.]+)-([\d.]+)$/);
+    const duration = m ? Number(m[2]) - Number(m[1]) : ctx.audioDuration?.(asset.file) ?? null;
+    if (duration != null && isFinite(duration)) parts.push(`Duration: ${formatSeconds(duration)}`);
+    if (uri) parts.push(`[▶ Play](${uri})`);
+  } else if (asset.kind === "image" && uri) {
+    parts.push(`![${asset.file}](${uri}|width=240)`);
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * Hover for what is under the cursor, resolved through the parsed Module:
+ *   - an activity / lesson marker: what the parser makes of that block;
+ *   - `ANSWER:`: the option text each id resolves to (item options, else the pool);
+ *   - a `{file}` token: duration + player link (audio) or a thumbnail (image);
+ *   - a dialogue speaker: the VoiceSpec it is read with.
+ */
+export function getHover(text: string, line: number, col: number, ctx: HoverContext = {}): HoverInfo | null {
+  const cst = parseModuleCst(text);
+  const node = cst.lines[line - 1];
+  if (!node) return null;
+
+  if (node.kind === "field" || node.kind === "speaker") {
+    const asset = node.assets.find((a) => col >= a.span.start && col < a.span.end);
+    if (asset) {
+      return { contents: hoverAsset(asset, ctx), range: { startLine: line, startCol: asset.span.start, endLine: line, endCol: asset.span.end } };
+    }
+  }
+
+  if (node.kind === "speaker" && col >= node.speakerSpan.start && col <= node.speakerSpan.end) {
+    const { voiceConfig } = parseModuleFileTolerant(text).module;
+    const id = Object.keys(voiceConfig.speakers).find((k) => k.toLowerCase() === node.speaker.toLowerCase());
+    const contents = id
+      ? `**${node.speaker}** — voice ${voiceLine(voiceConfig.speakers[id])}`
+      : `**${node.speaker}** — not declared with \`VOICE:\`; read with the default voice ${voiceLine(voiceConfig.default)}`;
+    return { contents, range: { startLine: line, startCol: node.speakerSpan.start, endLine: line, endCol: node.speakerSpan.end } };
+  }
+
+  if (node.kind === "field" && node.name === "ANSWER") {
+    const activity = findCstActivity(cst, line);
+    if (!activity || activity.type !== "SELECT") return null;
+    const { module } = parseModuleFileTolerant(text);
+    const parsed = module.lessons.flatMap((l) => l.activities).find((a) => a.id === activity.id) as SelectActivity | undefined;
+    const item = parsed?.items[itemStarts(activity).filter((start) => start <= line).length - 1];
+    if (!parsed || !item) return null;
+    const options = item.options && item.options.length ? item.options : parsed.options;
+    const rows = item.answer.map((id) => {
+      const opt = options.find((o) => o.id === id);
+      return opt ? `- \`${id}\` — ${opt.text || (opt.image ? `{${opt.image}}` : "")}` : `- \`${id}\` — _no such OPTION_`;
+    });
+    const source = options === parsed.options ? "shared options" : "this item's options";
+    return { contents: `**ANSWER** (${source})\n\n${rows.join("\n")}`, range: nodeRange(node) };
+  }
+
+  if (node.kind !== "marker" || !node.name) return null;
+  const { module } = parseModuleFileTolerant(text);
+
+  for (const [li, lesson] of cst.lessons.entries()) {
+    if (lesson.marker === node) {
+      const parsed = module.lessons[li];
+      return {
+        contents: `**$LESSON** ${lesson.title}\n\nid \`${lesson.id}\` · ${parsed?.activities.length ?? 0} activit${parsed?.activities.length === 1 ? "y" : "ies"} · L${lesson.startLine}–${lesson.endLine}`,
+        range: nodeRange(node),
+      };
+    }
+    for (const a of lesson.activities) {
+      if (a.marker !== node) continue;
+      const parsed = module.lessons[li]?.activities.find((x) => x.id === a.id);
+      const facts = [`id \`${a.id}\``, ...(parsed ? describeActivity(parsed) : ["not parsed"]), `L${a.startLine}–${a.endLine}`];
+      return { contents: `**$${a.type}** ${a.title}\n\n${facts.join(" · ")}`, range: nodeRange(node) };
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// DEFINITION
+// =============================================================================
+
+// The speaker id under the cursor: on a dialogue line or on its VOICE /
+// VOICE_SPEAKER declaration.
+function speakerAt(cst: ModuleCst, node: CstLine, col: number): string | null {
+  if (node.kind === "speaker") {
+    return col >= node.speakerSpan.start && col <= node.speakerSpan.end ? node.speaker : null;
+  }
+  const decl = speakerDeclarations(cst).find((d) => d.range.startLine === node.line);
+  return decl && col >= decl.range.startCol && col <= decl.range.endCol ? decl.id : null;
+}
+
+/**
+ * Go-to-definition:
+ *   - a dialogue speaker jumps to its `VOICE:` / `VOICE_SPEAKER:` declaration;
+ *   - an id in `ANSWER: a, b` jumps to its OPTION — the item's own options
+ *     first, then the shared pool (parseSelect's lookup).
+ */
+export function getDefinition(text: string, line: number, col: number): Range | null {
+  const cst = parseModuleCst(text);
+  const node = cst.lines[line - 1];
+  if (!node) return null;
+
+  if (node.kind === "speaker") {
+    const id = speakerAt(cst, node, col)?.toLowerCase();
+    if (!id) return null;
+    return speakerDeclarations(cst).find((d) => d.id.toLowerCase() === id)?.range ?? null;
+  }
+
+  if (node.kind === "field" && node.name === "ANSWER") {
+    const activity = findCstActivity(cst, line);
+    if (!activity || activity.type !== "SELECT") return null;
+    // The comma-separated id under the cursor.
+    let start = node.valueSpan.start;
+    for (const part of node.value.split(",")) {
+      const end = start + part.length;
+      if (col >= start && col <= end) {
+        const id = part.trim();
+        const { pool, item } = optionScopes(activity, line);
+        return (item.find((o) => o.id === id) ?? pool.find((o) => o.id === id))?.range ?? null;
+      }
+      start = end + 1;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find-references for a speaker (on a dialogue line or its declaration):
+ * every line the speaker speaks, plus the declaration(s) when asked.
+ * Speaker ids match case-insensitively, like speaker-undeclared.
+ */
+export function getReferences(text: string, line: number, col: number, includeDeclaration = true): Range[] {
+  const cst = parseModuleCst(text);
+  const node = cst.lines[line - 1];
+  const id = node ? speakerAt(cst, node, col)?.toLowerCase() : null;
+  if (!id) return [];
+  const refs: Range[] = [];
+  if (includeDeclaration) {
+    refs.push(...speakerDeclarations(cst).filter((d) => d.id.toLowerCase() === id).map((d) => d.range));
+  }
+  for (const l of cst.lines) {
+    if (l.kind === "speaker" && l.speaker.toLowerCase() === id) {
+      refs.push({ startLine: l.line, startCol: l.speakerSpan.start, endLine: l.line, endCol: l.speakerSpan.end });
+    }
+  }
+  return refs;
+}
+
+// =============================================================================
+// SEMANTIC TOKENS
+// =============================================================================
+
+export type SemanticTokenType =
+  | "marker"
+  | "headerField"
+  | "voiceField"
+  | "field"
+  | "speaker"
+  | "flag"
+  | "example"
+  | "optionId"
+  | "imageAsset"
+  | "audioAsset"
+  | "assetTiming"
+  | "markdown";
+
+/** `misplaced`: a field / flag / marker the parser ignores where it stands. */
+export type SemanticTokenModifier = "misplaced";
+
+/** Legend order (the LSP and VS Code encode types / modifiers by index). */
+export const SEMANTIC_TOKEN_TYPES: SemanticTokenType[] = [
+  "marker", "headerField", "voiceField", "field", "speaker", "flag", "example",
+  "optionId", "imageAsset", "audioAsset", "assetTiming", "markdown",
+];
+export const SEMANTIC_TOKEN_MODIFIERS: SemanticTokenModifier[] = ["misplaced"];
+
+export interface SemanticToken {
+  line: number;
+  startCol: number;
+  length: number;
+  type: SemanticTokenType;
+  modifiers: SemanticTokenModifier[];
+}
+
+const HEADER_FIELD_SET = new Set(ebnfSpec.headerFields);
+const VOICE_FIELD_SET = new Set(ebnfSpec.voiceFields);
+
+/**
+ * Semantic tokens from the CST line classification — what the TextMate
+ * grammar cannot know: speaker lines vs raw content, where a field or flag is
+ * valid, image vs audio assets, GRAMMAR markdown. Sorted, one line each,
+ * never overlapping.
+ */
+export function getSemanticTokens(text: string): SemanticToken[] {
+  const cst = parseModuleCst(text);
+  const tokens: SemanticToken[] = [];
+  const push = (line: number, start: number, end: number, type: SemanticTokenType, misplaced = false) => {
+    if (end > start) tokens.push({ line, startCol: start, length: end - start, type, modifiers: misplaced ? ["misplaced"] : [] });
+  };
+  const pushAsset = (a: CstAsset, text: string) => {
+    if (a.kind === "other") return;
+    const { line, start, end } = a.span;
+    const at = text.slice(start, end).indexOf("@");
+    if (a.kind === "image" || at < 0) {
+      push(line, start, end, a.kind === "image" ? "imageAsset" : "audioAsset");
+    } else {
+      // `{clip.mp3` · `@1.2-3.4` · `}`
+      push(line, start, start + at, "audioAsset");
+      push(line, start + at, end - 1, "assetTiming");
+      push(line, end - 1, end, "audioAsset");
+    }
+  };
+  const grammarLines = new Set<number>();
+  for (const lesson of cst.lessons) {
+    for (const a of lesson.activities) if (a.type === "GRAMMAR") for (const l of a.lines) grammarLines.add(l.line);
+  }
+  const firstScopeLine = Math.min(...cst.lessons.map((l) => l.startLine));
+
+  for (const node of cst.lines) {
+    const line = node.line;
+    const activity = findCstActivity(cst, line);
+    const inHeader = !activity && line < firstScopeLine;
+
+    switch (node.kind) {
+      case "marker": {
+        if (!node.name) break;
+        push(line, 0, node.nameSpan!.end, "marker", !ebnfSpec.markers.includes(node.name));
+        if (node.imageSpan) push(line, node.imageSpan.start, node.imageSpan.end, "imageAsset");
+        break;
+      }
+      case "flag": {
+        const isExample = node.name === ebnfSpec.exampleMarker;
+        const allowed = isExample
+          ? activity?.type === "SELECT" || activity?.type === "PRODUCE"
+          : (CONTEXT_FLAGS[activity?.type ?? ""] ?? []).includes(node.name);
+        push(line, node.nameSpan.start, node.nameSpan.end, isExample ? "example" : "flag", !allowed);
+        break;
+      }
+      case "field": {
+        const type: SemanticTokenType = inHeader
+          ? VOICE_FIELD_SET.has(node.name) ? "voiceField" : "headerField"
+          : "field";
+        const allowed = inHeader
+          ? HEADER_FIELD_SET.has(node.name) || VOICE_FIELD_SET.has(node.name)
+          : !!activity && (CONTEXT_FIELDS[activity.type] ?? []).includes(node.name);
+        push(line, node.nameSpan.start, node.nameSpan.end, type, !allowed);
+
+        if (inHeader && (node.name === "VOICE" || node.name === "VOICE_SPEAKER")) {
+          const decl = leadingIdRange(node, node.name === "VOICE" ? "|" : "=");
+          if (decl) push(line, decl.range.startCol, decl.range.endCol, "speaker");
+        } else if (activity?.type === "SELECT" && node.name === "OPTION") {
+          const decl = leadingIdRange(node, "|");
+          if (decl) push(line, decl.range.startCol, decl.range.endCol, "optionId");
+        } else if (activity?.type === "SELECT" && node.name === "ANSWER") {
+          let start = node.valueSpan.start;
+          for (const part of node.value.split(",")) {
+            const lead = part.length - part.trimStart().length;
+            push(line, start + lead, start + lead + part.trim().length, "optionId");
+            start += part.length + 1;
+          }
+        }
+        for (const a of node.assets) pushAsset(a, node.text);
+        break;
+      }
+      case "speaker":
+        push(line, node.speakerSpan.start, node.speakerSpan.end, "speaker");
+        for (const a of node.assets) pushAsset(a, node.text);
+        break;
+      case "content":
+        if (grammarLines.has(line)) push(line, node.span.start, node.span.end, "markdown");
+        break;
+    }
+  }
+  return tokens.sort((a, b) => a.line - b.line || a.startCol - b.startCol);
+}
+
+// =============================================================================
+// RENAME (speakers)
+// =============================================================================
+
+/**
+ * Why `name` cannot be a speaker id, or null if it can: ids are
+ * alnum/underscore, start with a letter, and need a lowercase letter
+ * (ALL-CAPS names read as fields).
+ */
+export function validateSpeakerId(name: string): string | null {
+  if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) return `"${name}" is not a valid speaker id (letters, digits and _; starts with a letter).`;
+  if (!/[a-z]/.test(name)) return `"${name}" would read as a field name; speaker ids need a lowercase letter.`;
+  return null;
+}
+
+/** The speaker id under the cursor and its range, if a rename can start there. */
+export function prepareRename(text: string, line: number, col: number): { id: string; range: Range } | null {
+  const cst = parseModuleCst(text);
+  const node = cst.lines[line - 1];
+  const id = node ? speakerAt(cst, node, col) : null;
+  if (!node || !id) return null;
+  const range =
+    node.kind === "speaker"
+      ? { startLine: line, startCol: node.speakerSpan.start, endLine: line, endCol: node.speakerSpan.end }
+      : speakerDeclarations(cst).find((d) => d.range.startLine === line)!.range;
+  return { id, range };
+}
+
+/**
+ * Edits that rename speaker `from` to `to` everywhere in one module: its
+ * VOICE / VOICE_SPEAKER declarations and every dialogue line it speaks
+ * (matched case-insensitively, like speaker-undeclared). No edits when the
+ * module never mentions `from`.
+ */
+export function renameSpeaker(text: string, from: string, to: string): TextEdit[] {
+  const cst = parseModuleCst(text);
+  const id = from.toLowerCase();
+  const ranges = speakerDeclarations(cst).filter((d) => d.id.toLowerCase() === id).map((d) => d.range);
+  for (const l of cst.lines) {
+    if (l.kind === "speaker" && l.speaker.toLowerCase() === id) {
+      ranges.push({ startLine: l.line, startCol: l.speakerSpan.start, endLine: l.line, endCol: l.speakerSpan.end });
+    }
+  }
+  return ranges.map((r) => ({ ...r, newText: to }));
+}
+
+/**
+ * Why renaming `from` → `to` cannot be applied to this module, or null: `to`
+ * must be a valid id, and must not already be declared for another speaker
+ * (the two voices would silently merge).
+ */
+export function checkSpeakerRename(text: string, from: string, to: string): string | null {
+  const invalid = validateSpeakerId(to);
+  if (invalid) return invalid;
+  const taken = speakerDeclarations(parseModuleCst(text)).some((d) => d.id.toLowerCase() === to.toLowerCase());
+  if (taken && to.toLowerCase() !== from.toLowerCase()) {
+    return `Speaker "${to}" is already declared; renaming "${from}" would merge the two voices.`;
+  }
+  return null;
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+// Header fields in the order serializeModule writes them; VOICE and
+// VOICE_SPEAKER share a rank, as do HOME_LANG_G and its legacy spelling
+// USER_LANG_G (their relative order decides duplicates).
+const HEADER_ORDER = [
+  "FORMAT", "DIOCO_DOC_ID", "DESCRIPTION", "TARGET_LANG_G", "HOME_LANG_G",
+  "TTS_PROMPT", "VOICE_DEFAULT", "VOICE_INTRO", "VOICE_PROMPT", "VOICE_RESPONSE", "VOICE",
+];
+const HEADER_ALIASES: Record<string, string> = { VOICE_SPEAKER: "VOICE", USER_LANG_G: "HOME_LANG_G" };
+const headerRank = (name: string) => {
+  const i = HEADER_ORDER.indexOf(HEADER_ALIASES[name] ?? name);
+  return i < 0 ? HEADER_ORDER.length : i;
+};
+
+// The asset kinds the parser takes off each field's line (extractInlineAssets'
+// `allow`); speaker lines read like LINE.
+const ASSET_FIELDS: Record<string, { audio?: boolean; image?: boolean }> = {
+  PROMPT: {},
+  OPTION: {},
+  LINE: {},
+  TEMPLATE: { audio: false },
+  RESPONSE: { image: false },
+};
+
+// Trailing `{asset}` run: one space apart, no padding inside the braces, and
+// `{image} {audio}` order. Peels exactly the tokens extractInlineAssets would —
+// kinds the field takes, at most one of each — so a token the parser leaves in
+// the text stays as written.
+function tidyAssets(value: string, allow: { audio?: boolean; image?: boolean }): string {
+  let text = value.trim();
+  const tokens: { token: string; kind: "image" | "audio" }[] = [];
+  for (;;) {
+    const m = text.match(/^(.*?)\s*\{\s*([^{}]+?)\s*\}$/);
+    if (!m) break;
+    const file = m[2].split("@")[0].trim();
+    const kind =
+      allow.audio !== false && AUDIO_EXT_RE.test(file) ? "audio" : allow.image !== false && IMAGE_EXT_RE.test(file) ? "image" : null;
+    if (!kind || tokens.some((t) => t.kind === kind)) break;
+    tokens.unshift({ token: `{${m[2].split("@").map((p) => p.trim()).join("@")}}`, kind });
+    text = m[1].trim();
+  }
+  if (tokens.length === 2 && tokens[0].kind === "audio") tokens.reverse();
+  return [text, ...tokens.map((t) => t.token)].filter(Boolean).join(" ");
+}
+
+const joinParts = (value: string, sep: string, glue: string) => value.split(sep).map((p) => p.trim()).join(glue);
+
+// Canonical spelling of a field value. Every rewrite here is one the parser
+// reads identically (it trims around `|`, `=` and `,`).
+function tidyFieldValue(name: string, value: string): string {
+  switch (name) {
+    case "OPTION":
+      return value.includes("|") ? tidyAssets(joinParts(value, "|", " | "), ASSET_FIELDS.OPTION) : value;
+    case "VOICE":
+      return value.includes("|") ? joinParts(value, "|", " | ") : value;
+    case "VOICE_SPEAKER": {
+      const m = value.match(/^(.+?)\s*=\s*([^|]+?)\s*(?:\|\s*(.*))?$/);
+      return m ? `${m[1].trim()} = ${m[2]}${m[3] ? ` | ${m[3]}` : ""}` : value;
+    }
+    case "VOICE_DEFAULT":
+    case "VOICE_INTRO":
+    case "VOICE_PROMPT":
+    case "VOICE_RESPONSE": {
+      const m = value.match(/^([^|]+?)\s*(?:\|\s*(.*))?$/);
+      return m ? `${m[1].trim()}${m[2] ? ` | ${m[2]}` : ""}` : value;
+    }
+    case "ANSWER":
+      return value.split(",").map((p) => p.trim()).filter(Boolean).join(", ");
+    case "ACCEPT":
+      return value.split("|").map((p) => p.trim()).filter(Boolean).join(" | ");
+    default:
+      return name in ASSET_FIELDS ? tidyAssets(value, ASSET_FIELDS[name]) : value;
+  }
+}
+
+function formatLine(node: CstLine): string {
+  switch (node.kind) {
+    case "marker": {
+      if (!node.name) return node.text.trimEnd();
+      if (!node.image) return `$${node.name}${node.rawTitle ? ` ${node.rawTitle}` : ""}`;
+      const image = `{${node.text.slice(node.imageSpan!.start, node.imageSpan!.end).slice(1, -1).trim()}}`;
+      return `$${node.name} ${[node.title, image].filter(Boolean).join(" ")}`;
+    }
+    case "flag":
+      return node.name;
+    case "field": {
+      const value = tidyFieldValue(node.name, node.value);
+      return value ? `${node.name}: ${value}` : `${node.name}:`;
+    }
+    case "speaker": {
+      const value = tidyAssets(node.value, ASSET_FIELDS.LINE);
+      return value ? `${node.speaker}: ${value}` : `${node.speaker}:`;
+    }
+    default:
+      return node.text.trimEnd();
+  }
+}
+
+/**
+ * Canonical layout for .module text, without changing what the parser reads
+ * (`parseModuleFile(formatModuleText(t))` equals `parseModuleFile(t)`):
+ *   - header fields in serializeModule's order (comments move with the field below);
+ *   - one blank line before every lesson, activity and SELECT / PRODUCE item,
+ *     none inside an item, never two in a row;
+ *   - `NAME: value`, `OPTION: id | text`, `VOICE: Jim | Puck`, `ANSWER: a, b`;
+ *   - trailing `{asset}` runs one space apart, `{image}` before `{audio}` (only the
+ *     tokens the parser takes off the line; the rest are text);
+ *   - no trailing whitespace; exactly one newline at the end.
+ * $GRAMMAR bodies are markdown (trailing double spaces are line breaks) and are
+ * left untouched.
+ */
+export function formatModuleText(text: string): string {
+  const cst = parseModuleCst(text.replace(/\r\n/g, "\n"));
+  const markdown = new Set<number>();
+  const blankBefore = new Set<number>();
+  const dropBlank = new Set<number>();
+
+  for (const lesson of cst.lessons) {
+    if (lesson.marker) blankBefore.add(blockStart(cst, lesson.marker.line, false));
+    for (const a of lesson.activities) {
+      blankBefore.add(blockStart(cst, a.startLine, false));
+      if (a.type === "GRAMMAR") for (const l of a.lines) markdown.add(l.line);
+      if (a.type !== "SELECT" && a.type !== "PRODUCE") continue;
+      for (const item of itemBlocks(cst, a)) {
+        blankBefore.add(item.start);
+        // Blanks inside the item go; blanks before a trailing comment block stay.
+        for (let line = item.start; line <= item.end; line++) dropBlank.add(line);
+      }
+    }
+  }
+
+  // Header: $MODULE, then its fields in canonical order. Left alone when it
+  // holds anything but fields and comments.
+  let order: CstLine[] = cst.lines;
+  const mi = cst.header.findIndex((l) => l.kind === "marker" && l.name === "MODULE");
+  const fields = cst.header.slice(mi + 1);
+  if (mi >= 0 && fields.every((l) => l.kind === "field" || l.kind === "comment" || l.kind === "blank")) {
+    const groups: { rank: number; lines: CstLine[] }[] = [];
+    let comments: CstLine[] = [];
+    for (const l of fields) {
+      if (l.kind === "comment") comments.push(l);
+      else if (l.kind === "field") {
+        groups.push({ rank: headerRank(l.name), lines: [...comments, l] });
+        comments = [];
+      } else dropBlank.add(l.line);
+    }
+    if (comments.length) groups.push({ rank: Infinity, lines: comments });
+    groups.sort((x, y) => x.rank - y.rank);
+    order = [...cst.header.slice(0, mi + 1), ...groups.flatMap((g) => g.lines), ...cst.lines.slice(cst.header.length)];
+  }
+
+  const out: string[] = [];
+  for (const node of order) {
+    if (markdown.has(node.line)) {
+      out.push(node.kind === "blank" ? "" : node.text);
+      continue;
+    }
+    if (node.kind === "blank") {
+      if (!dropBlank.has(node.line) && out.length && out[out.length - 1] !== "") out.push("");
+      continue;
+    }
+    if (blankBefore.has(node.line) && out.length && out[out.length - 1] !== "") out.push("");
+    out.push(formatLine(node));
+  }
+  while (out.length && out[out.length - 1] === "") out.pop();
+  return out.join("\n") + "\n";
+}
+
+/** formatModuleText as edits: one whole-document replacement, or none. */
+export function getFormattingEdits(text: string): TextEdit[] {
+  const formatted = formatModuleText(text);
+  if (formatted === text) return [];
+  const lines = text.split("\n");
+  return [{ startLine: 1, startCol: 0, endLine: lines.length, endCol: lines[lines.length - 1].length, newText: formatted }];
+}
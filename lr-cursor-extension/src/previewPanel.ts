@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { parseModuleFile } from "./parser/moduleParser";
+import * as crypto from "crypto";
+import { parseModuleFileTolerant, ModuleParseError } from "./parser/moduleParser";
 import { lintModuleText } from "./parser/diagnostics";
 import {
   Module,
@@ -17,6 +18,11 @@ import {
   VoiceSpec,
 } from "./parser/types";
 import { Diagnostic } from "./parser/diagnostics";
+import {
+  getSourceMap,
+  sourceBlockAt,
+  SourceBlock,
+} from "./parser/module_language";
 
 export class ModulePreviewPanel {
   static currentPanel: ModulePreviewPanel | undefined;
@@ -25,11 +31,25 @@ export class ModulePreviewPanel {
   private disposables: vscode.Disposable[] = [];
   private currentDocumentDir: vscode.Uri | null = null;
   private currentModuleBaseName: string | null = null;
+  // Editor ↔ preview sync: the rendered document, the source lines of its
+  // lessons / activities / items / dialogue lines (getSourceMap), and the
+  // card last scrolled to.
+  private documentUri: vscode.Uri | null = null;
+  private sourceMap: (SourceBlock | null)[] = [];
+  private syncedLine: number | null = null;
 
   private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
     this.panel = panel;
     this.extensionUri = extensionUri;
     this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      (msg) => {
+        if (msg?.command === "reveal" && typeof msg.line === "number")
+          void this.revealInEditor(msg.line);
+      },
+      null,
+      this.disposables,
+    );
   }
 
   static createOrShow(extensionUri: vscode.Uri, docDir?: vscode.Uri): ModulePreviewPanel {
@@ -48,7 +68,8 @@ export class ModulePreviewPanel {
       "Module Preview",
       column,
       {
-        enableScripts: false,
+        // Only the nonce'd sync script in wrapHtml runs.
+        enableScripts: true,
         localResourceRoots: roots,
       },
     );
@@ -64,27 +85,60 @@ export class ModulePreviewPanel {
     this.currentModuleBaseName = path.basename(document.fileName, ".module");
 
     const text = document.getText();
-    let html: string;
-    try {
-      const mod = parseModuleFile(text);
-      html = this.renderModule(mod);
-    } catch (e: any) {
-      const diagnostics = lintModuleText(text);
-      html = this.renderError(e.message || String(e), diagnostics);
-    }
+    // Tolerant parse: a half-finished file still renders every valid lesson and
+    // activity, with the skipped parts listed above it.
+    const { module: mod, errors } = parseModuleFileTolerant(text);
+    this.documentUri = document.uri;
+    this.sourceMap = getSourceMap(text, mod);
+    // Re-rendering resets the scroll position: start at the cursor's card.
+    const editor = vscode.window.activeTextEditor;
+    const cursor =
+      editor?.document === document
+        ? sourceBlockAt(this.sourceMap, editor.selection.active.line + 1)
+        : null;
+    this.syncedLine = cursor?.line ?? null;
+    const banner = errors.length ? this.renderError(errors, lintModuleText(text)) : "";
+    const html = this.renderModule(mod, banner, this.syncedLine);
     this.panel.title = `Preview: ${document.fileName.split("/").pop()}`;
     this.panel.webview.html = html;
   }
 
-  private renderModule(mod: Module): string {
+  /** Scroll the preview to the card for `line` (1-based) of `document`. */
+  syncToLine(document: vscode.TextDocument, line: number): void {
+    if (document.uri.toString() !== this.documentUri?.toString()) return;
+    const block = sourceBlockAt(this.sourceMap, line);
+    if (!block || block.line === this.syncedLine) return;
+    this.syncedLine = block.line;
+    void this.panel.webview.postMessage({ command: "scrollTo", line: block.line });
+  }
+
+  // A card was clicked in the preview: put the cursor on its source line.
+  private async revealInEditor(line: number): Promise<void> {
+    if (!this.documentUri) return;
+    const uri = this.documentUri.toString();
+    const visible = vscode.window.visibleTextEditors.find(
+      (e) => e.document.uri.toString() === uri,
+    );
+    const editor = await vscode.window.showTextDocument(this.documentUri, {
+      viewColumn: visible?.viewColumn ?? vscode.ViewColumn.One,
+    });
+    const pos = new vscode.Position(line - 1, 0);
+    editor.selection = new vscode.Selection(pos, pos);
+    editor.revealRange(
+      new vscode.Range(pos, pos),
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+    );
+  }
+
+  private renderModule(mod: Module, banner = "", initialLine: number | null = null): string {
     const toc = this.renderTOC(mod);
     const content = this.renderContent(mod);
     return this.wrapHtml(`
       <div class="layout">
         <nav class="toc">${toc}</nav>
-        <main class="content">${content}</main>
+        <main class="content">${banner}${content}</main>
       </div>
-    `);
+    `, initialLine);
   }
 
   private renderTOC(mod: Module): string {
@@ -111,14 +165,15 @@ export class ModulePreviewPanel {
     html += `<span class="doc-id">${esc(mod.moduleKey)}</span></div>`;
     html += this.renderVoiceConfig(mod);
     html += `</header>`;
-    for (const lesson of mod.lessons) {
-      html += `<section class="lesson" id="${esc(lesson.id)}">`;
+    mod.lessons.forEach((lesson, i) => {
+      const src = this.sourceMap[i];
+      html += `<section class="lesson" id="${esc(lesson.id)}"${lineAttr(src)}>`;
       html += `<h2 class="lesson-title">${esc(lesson.title)}</h2>`;
-      for (const act of lesson.activities) {
-        html += this.renderActivity(act);
-      }
+      lesson.activities.forEach((act, j) => {
+        html += this.renderActivity(act, src?.children[j] ?? null);
+      });
       html += `</section>`;
-    }
+    });
     return html;
   }
 
@@ -150,20 +205,20 @@ export class ModulePreviewPanel {
     return `<div class="voice-config"><div class="voice-config-title">Voice Configuration</div>${entries.map((e) => `<div class="voice-entry">${e}</div>`).join("")}</div>`;
   }
 
-  private renderActivity(act: Activity): string {
-    let html = `<div class="activity activity-${act.type.toLowerCase()}" id="${esc(act.id)}">`;
+  private renderActivity(act: Activity, src: SourceBlock | null): string {
+    let html = `<div class="activity activity-${act.type.toLowerCase()}" id="${esc(act.id)}"${lineAttr(src)}>`;
     html += `<h3>${activityTypeChip(act.type)} <span class="activity-title">${esc(act.title)}</span></h3>`;
     if (act.intro)
       html += `<div class="intro"><span class="field-label">INTRO</span> ${esc(act.intro)}</div>`;
     switch (act.type) {
       case "DIALOGUE":
-        html += this.renderDialogue(act);
+        html += this.renderDialogue(act, src);
         break;
       case "SELECT":
-        html += this.renderSelect(act);
+        html += this.renderSelect(act, src);
         break;
       case "PRODUCE":
-        html += this.renderProduce(act);
+        html += this.renderProduce(act, src);
         break;
       case "GRAMMAR":
         html += this.renderGrammar(act);
@@ -191,22 +246,22 @@ export class ModulePreviewPanel {
     return `<div class="asset-block"><img class="asset-img" src="${esc(src)}" alt="${esc(file)}" /></div>`;
   }
 
-  private renderDialogue(act: DialogueActivity): string {
+  private renderDialogue(act: DialogueActivity, src: SourceBlock | null): string {
     let html = "";
     if (act.instruction)
       html += `<div class="instruction"><span class="field-label">INSTRUCTION</span> ${esc(act.instruction)}</div>`;
     if (act.repeat) html += `<div class="flags">${flagChip("repeat")}</div>`;
     if (act.image) html += this.renderImage(act.image);
     html += `<div class="dialogue-lines">`;
-    for (const line of act.lines) {
-      html += this.renderDialogueLine(line);
-    }
+    act.lines.forEach((line, i) => {
+      html += this.renderDialogueLine(line, src?.children[i] ?? null);
+    });
     html += `</div>`;
     return html;
   }
 
-  private renderDialogueLine(line: DialogueLine): string {
-    let html = `<div class="dialogue-line">`;
+  private renderDialogueLine(line: DialogueLine, src: SourceBlock | null): string {
+    let html = `<div class="dialogue-line"${lineAttr(src)}>`;
     if (line.speaker) html += `<div class="speaker">${esc(line.speaker)}</div>`;
     if (line.image) html += this.renderImage(line.image);
     if (line.vocab && line.vocab.length > 0) {
@@ -228,7 +283,7 @@ export class ModulePreviewPanel {
     return html;
   }
 
-  private renderSelect(act: SelectActivity): string {
+  private renderSelect(act: SelectActivity, src: SourceBlock | null): string {
     let html = "";
     if (act.instruction)
       html += `<div class="instruction"><span class="field-label">INSTRUCTION</span> ${esc(act.instruction)}</div>`;
@@ -241,7 +296,7 @@ export class ModulePreviewPanel {
     if (act.options.length) html += this.renderOptions(act.options, "Options");
     html += `<div class="exercise-items">`;
     for (let i = 0; i < act.items.length; i++) {
-      html += this.renderSelectItem(act.items[i], i + 1, act.options);
+      html += this.renderSelectItem(act.items[i], i + 1, act.options, src?.children[i] ?? null);
     }
     html += `</div>`;
     return html;
@@ -278,9 +333,14 @@ export class ModulePreviewPanel {
     return html;
   }
 
-  private renderSelectItem(item: SelectItem, num: number, sharedOptions?: SelectOption[]): string {
+  private renderSelectItem(
+    item: SelectItem,
+    num: number,
+    sharedOptions: SelectOption[],
+    src: SourceBlock | null,
+  ): string {
     const cls = item.isExample ? "exercise-item example" : "exercise-item";
-    let html = `<div class="${cls}">`;
+    let html = `<div class="${cls}"${lineAttr(src)}>`;
     if (item.isExample) html += `<div class="example-badge">Example</div>`;
     html += `<div class="exercise-num">${num}</div>`;
     html += `<div class="exercise-body">`;
@@ -303,7 +363,7 @@ export class ModulePreviewPanel {
     return html;
   }
 
-  private renderProduce(act: ProduceActivity): string {
+  private renderProduce(act: ProduceActivity, src: SourceBlock | null): string {
     let html = "";
     if (act.instruction)
       html += `<div class="instruction"><span class="field-label">INSTRUCTION</span> ${esc(act.instruction)}</div>`;
@@ -314,15 +374,15 @@ export class ModulePreviewPanel {
     if (act.image) html += this.renderImage(act.image);
     html += `<div class="exercise-items">`;
     for (let i = 0; i < act.items.length; i++) {
-      html += this.renderProduceItem(act.items[i], i + 1);
+      html += this.renderProduceItem(act.items[i], i + 1, src?.children[i] ?? null);
     }
     html += `</div>`;
     return html;
   }
 
-  private renderProduceItem(item: ProduceItem, num: number): string {
+  private renderProduceItem(item: ProduceItem, num: number, src: SourceBlock | null): string {
     const cls = item.isExample ? "exercise-item example" : "exercise-item";
-    let html = `<div class="${cls}">`;
+    let html = `<div class="${cls}"${lineAttr(src)}>`;
     if (item.isExample) html += `<div class="example-badge">Example</div>`;
     html += `<div class="exercise-num">${num}</div>`;
     html += `<div class="exercise-body">`;
@@ -354,8 +414,12 @@ export class ModulePreviewPanel {
     return html;
   }
 
-  private renderError(message: string, diagnostics: Diagnostic[]): string {
-    let html = `<div class="error"><h2>Parse Error</h2><pre>${esc(message)}</pre>`;
+  private renderError(errors: ModuleParseError[], diagnostics: Diagnostic[]): string {
+    let html = `<div class="error"><h2>Parse Errors</h2><ul class="diagnostics">`;
+    for (const e of errors) {
+      html += `<li class="diag-error"><span class="diag-line">Line ${e.line}</span> ${esc(e.message)}</li>`;
+    }
+    html += `</ul>`;
     if (diagnostics && diagnostics.length > 0) {
       html += `<h3>Issues Found</h3><ul class="diagnostics">`;
       for (const d of diagnostics) {
@@ -367,18 +431,23 @@ export class ModulePreviewPanel {
       html += `</ul>`;
     }
     html += `</div>`;
-    return this.wrapHtml(html);
+    return html;
   }
 
-  private wrapHtml(body: string): string {
+  private wrapHtml(body: string, initialLine: number | null = null): string {
+    const nonce = crypto.randomBytes(16).toString("base64");
+    const csp = this.panel.webview.cspSource;
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
 <meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${csp} https: data:; media-src ${csp} https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
 <style>${CSS}</style>
 </head>
-<body>${body}</body>
+<body${initialLine ? ` data-initial-line="${initialLine}"` : ""}>${body}
+<script nonce="${nonce}">${SYNC_SCRIPT}</script>
+</body>
 </html>`;
   }
 
@@ -408,6 +477,10 @@ export class ModulePreviewPanel {
   }
 }
 
+function lineAttr(src: SourceBlock | null): string {
+  return src ? ` data-line="${src.line}"` : "";
+}
+
 function esc(s: string): string {
   return s
     .replace(/&/g, "&amp;")
@@ -522,6 +595,39 @@ function renderMarkdown(md: string, resolveImage?: (src: string) => string): str
   return html;
 }
 
+// Runs in the webview. Clicking a card (not its audio / links, not while
+// selecting text) asks the extension to reveal its source line; "scrollTo"
+// brings the card for the editor's cursor into view and marks it.
+const SYNC_SCRIPT = `
+const vscode = acquireVsCodeApi();
+let current = null;
+function mark(el) {
+  if (current) current.classList.remove("synced");
+  current = el;
+  el.classList.add("synced");
+}
+function scrollToLine(line) {
+  const el = document.querySelector('[data-line="' + line + '"]');
+  if (!el) return;
+  mark(el);
+  const r = el.getBoundingClientRect();
+  if (r.top >= 0 && r.bottom <= window.innerHeight) return;
+  el.scrollIntoView({ block: r.height > window.innerHeight / 2 ? "start" : "center" });
+}
+document.addEventListener("click", (e) => {
+  if (String(window.getSelection() || "")) return;
+  if (!(e.target instanceof Element) || e.target.closest("a, audio, button, summary")) return;
+  const el = e.target.closest("[data-line]");
+  if (!el) return;
+  mark(el);
+  vscode.postMessage({ command: "reveal", line: Number(el.dataset.line) });
+});
+window.addEventListener("message", (e) => {
+  if (e.data && e.data.command === "scrollTo") scrollToLine(e.data.line);
+});
+if (document.body.dataset.initialLine) scrollToLine(document.body.dataset.initialLine);
+`;
+
 const CSS = `
 :root {
   --bg: var(--vscode-editor-background);
@@ -587,6 +693,8 @@ body { font-family: var(--vscode-font-family, system-ui); font-size: 13px; color
 .lesson-title { font-size: 16px; margin-bottom: 14px; padding-bottom: 6px; border-bottom: 1px solid var(--border); }
 
 .activity { margin-bottom: 16px; padding: 10px 12px; background: var(--card-bg); border-radius: 6px; border: 1px solid var(--border); }
+[data-line] { cursor: pointer; }
+.synced { outline: 1px solid var(--accent); outline-offset: 2px; }
 .activity h3 { font-size: 14px; margin-bottom: 8px; display: flex; align-items: center; gap: 8px; flex-wrap: wrap; }
 .activity-title { flex: 1 1 auto; min-width: 0; }
 
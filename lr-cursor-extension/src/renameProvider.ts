@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  prepareRename,
+  renameSpeaker,
+  checkSpeakerRename,
+  validateSpeakerId,
+} from "./parser/module_language";
+import { toRange } from "./outlineProvider";
+
+// F2 on a speaker (dialogue line or VOICE declaration): renames it throughout
+// the module via the shared editor features (module_language.ts).
+export class ModuleRenameProvider implements vscode.RenameProvider {
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): { range: vscode.Range; placeholder: string } {
+    const target = prepareRename(
+      document.getText(),
+      position.line + 1,
+      position.character,
+    );
+    if (!target) throw new Error("Only speaker names can be renamed.");
+    return { range: toRange(target.range), placeholder: target.id };
+  }
+
+  provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+  ): vscode.WorkspaceEdit | null {
+    const text = document.getText();
+    const target = prepareRename(text, position.line + 1, position.character);
+    if (!target) return null;
+    const problem = checkSpeakerRename(text, target.id, newName);
+    if (problem) throw new Error(problem);
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const e of renameSpeaker(text, target.id, newName)) {
+      edit.replace(document.uri, toRange(e), e.newText);
+    }
+    return edit;
+  }
+}
+
+/**
+ * Rename a speaker in every .module of the course repo (the workspace folder
+ * of the active editor). Edits go through the refactor preview; modules where
+ * the new id is already taken are skipped and reported.
+ */
+export async function renameSpeakerInCourse(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const folder =
+    (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)) ||
+    vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showWarningMessage("Open a course folder first.");
+    return;
+  }
+
+  const atCursor =
+    editor?.document.languageId === "module"
+      ? prepareRename(
+          editor.document.getText(),
+          editor.selection.active.line + 1,
+          editor.selection.active.character,
+        )
+      : null;
+  const from = await vscode.window.showInputBox({
+    prompt: "Speaker to rename",
+    value: atCursor?.id ?? "",
+    validateInput: (v) => validateSpeakerId(v.trim()),
+  });
+  if (!from) return;
+  const to = await vscode.window.showInputBox({
+    prompt: `Rename "${from.trim()}" to`,
+    value: from.trim(),
+    validateInput: (v) => validateSpeakerId(v.trim()),
+  });
+  if (!to || to.trim() === from.trim()) return;
+  const oldId = from.trim();
+  const newId = to.trim();
+
+  const files = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, "**/*.module"),
+    "**/node_modules/**",
+  );
+  const edit = new vscode.WorkspaceEdit();
+  const skipped: string[] = [];
+  let touched = 0;
+  for (const uri of files.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+    // Open documents include unsaved changes.
+    const text = (await vscode.workspace.openTextDocument(uri)).getText();
+    const edits = renameSpeaker(text, oldId, newId);
+    if (!edits.length) continue;
+    const problem = checkSpeakerRename(text, oldId, newId);
+    const rel = path.relative(folder.uri.fsPath, uri.fsPath);
+    if (problem) {
+      skipped.push(`${rel}: ${problem}`);
+      continue;
+    }
+    touched++;
+    for (const e of edits) {
+      edit.replace(uri, toRange(e), e.newText, {
+        needsConfirmation: true,
+        label: `Rename speaker ${oldId} → ${newId}`,
+        description: rel,
+      });
+    }
+  }
+
+  if (skipped.length) {
+    vscode.window.showWarningMessage(
+      `Skipped ${skipped.length} module(s): ${skipped.join("; ")}`,
+    );
+  }
+  if (!touched) {
+    if (!skipped.length) {
+      vscode.window.showInformationMessage(
+        `No module in ${folder.name} mentions speaker "${oldId}".`,
+      );
+    }
+    return;
+  }
+  await vscode.workspace.applyEdit(edit);
+}
@@ -0,0 +1,38 @@
+import * as vscode from "vscode";
+import {
+  getSemanticTokens,
+  SEMANTIC_TOKEN_TYPES,
+  SEMANTIC_TOKEN_MODIFIERS,
+} from "./parser/module_language";
+
+// Token types / modifiers are declared in package.json (semanticTokenTypes,
+// with TextMate fallbacks in semanticTokenScopes).
+export const semanticTokensLegend = new vscode.SemanticTokensLegend(
+  SEMANTIC_TOKEN_TYPES,
+  SEMANTIC_TOKEN_MODIFIERS,
+);
+
+// Highlighting from the parser's line classification (module_language.ts),
+// layered over the TextMate grammar.
+export class ModuleSemanticTokensProvider
+  implements vscode.DocumentSemanticTokensProvider
+{
+  provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+  ): vscode.SemanticTokens {
+    const builder = new vscode.SemanticTokensBuilder(semanticTokensLegend);
+    for (const t of getSemanticTokens(document.getText())) {
+      builder.push(
+        new vscode.Range(
+          t.line - 1,
+          t.startCol,
+          t.line - 1,
+          t.startCol + t.length,
+        ),
+        t.type,
+        t.modifiers,
+      );
+    }
+    return builder.build();
+  }
+}
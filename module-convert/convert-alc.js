@@ -19,6 +19,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { callGemini, stripMarkdownCodeBlocks, isRateLimitError } from '../lib/gemini-api.js';
 import { sleep } from '../lib/progress.js';
+import { modelProviderFromConfig } from '../lib/model-provider.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -51,6 +52,8 @@ function loadConfig(configPath) {
     thinkingBudget: typeof c.thinkingBudget === 'number' ? c.thinkingBudget : 4096,
     delayBetweenRequests: c.delayBetweenRequests || 3000,
     bookId: c.bookId || 'NN',
+    // { mode: live | record | replay, cassettes } — see lib/model-provider.js.
+    provider: modelProviderFromConfig(c.modelProvider, dir),
   };
 }
 
@@ -265,6 +268,7 @@ async function convertLesson(config, lessonCode, bookText, tapeText) {
     temperature: config.temperature,
     maxTokens: config.maxTokens,
     thinkingBudget: config.thinkingBudget,
+    provider: config.provider,
   });
   return stripMarkdownCodeBlocks(resp);
 }
@@ -276,7 +280,8 @@ async function main() {
 
   console.log(`=== ALC Convert === ${config.courseName}`);
   console.log(`book: ${config.inputDir}`);
-  console.log(`tape: ${config.transcriptsDir}\n`);
+  console.log(`tape: ${config.transcriptsDir}`);
+  console.log(`model provider: ${config.provider.mode}\n`);
 
   const book = splitBookByLesson(config.inputDir);
 
@@ -317,7 +322,7 @@ async function main() {
       console.error(`    ! ${code}: ${e.message}`);
       if (isRateLimitError(e)) await sleep(30000);
     }
-    await sleep(config.delayBetweenRequests);
+    if (!config.provider.offline) await sleep(config.delayBetweenRequests);
   }
   console.log('\nStage A+B done. Next: slice-clips.js to cut audio and finalize.');
 }
@@ -1,6 +1,8 @@
 /**
  * Universal Course Converter
  * Converts language course materials to .module format using Gemini AI
+ * Each output is linted with the canonical module-parser rules; errors go back
+ * to the model as repair turns, and the final report is saved as <name>.lint.txt.
  *
  * Usage: node module-convert/convert-course.js --config configs/fsi-french/module-convert.json
  */
@@ -21,6 +23,8 @@ import {
   ensureDir,
 } from '../lib/file-utils.js';
 import { sleep, ProgressTracker } from '../lib/progress.js';
+import { modelProviderFromConfig } from '../lib/model-provider.js';
+import { build } from 'esbuild';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -83,7 +87,11 @@ function loadConfig(configPath) {
     temperature: config.temperature || 1.0,
     thinkingBudget: typeof config.thinkingBudget === 'number' ? config.thinkingBudget : 4096,
     delayBetweenRequests: config.delayBetweenRequests || 3000,
+    // Follow-up turns that send the linter's errors back to the model.
+    repairRounds: typeof config.repairRounds === 'number' ? config.repairRounds : 2,
     configDir: configDir,
+    // { mode: live | record | replay, cassettes } — see lib/model-provider.js.
+    provider: modelProviderFromConfig(config.modelProvider, configDir),
     goldExamples,
     // Shared conversion-rule docs (filenames in module-convert/shared/) appended
     // to the prompt after the format spec — e.g. ["st_notes.md"] for every ST
@@ -162,55 +170,97 @@ ${coursePrompt ? '---\n\n# Course-Specific Instructions\n\n' + coursePrompt : ''
   return systemPrompt;
 }
 
-function validateModuleOutput(text) {
-  const warnings = [];
-  const t = String(text || '');
-
-  if (!t.match(/^\s*\$MODULE/m)) warnings.push('Missing $MODULE header');
-  if (!t.match(/^\s*DIOCO_DOC_ID:\s*\S+/m)) warnings.push('Missing DIOCO_DOC_ID in header (optional, moduleKey derived from filename)');
-  if (!t.match(/^\$MODULE\s+\S/m)) warnings.push('Missing module title on the $MODULE line');
-  if (!t.match(/^\s*TARGET_LANG_G:\s*\S+/m)) warnings.push('Missing TARGET_LANG_G in header');
-  if (!t.match(/^\s*HOME_LANG_G:\s*\S+/m)) warnings.push('Missing HOME_LANG_G in header');
-
-  // No-colon rule for section markers (v2 marker set)
-  const colonMarkers = t.match(/^\s*\$(LESSON|DIALOGUE|GRAMMAR|SELECT|PRODUCE|CHAT)\s*:/gm);
-  if (colonMarkers && colonMarkers.length > 0) warnings.push('Found section markers with colon (must be `$LESSON Title`, not `$LESSON: Title`)');
-
-  // v2 removed $EXERCISE and inline translations (*_T fields)
-  if (t.match(/^\s*\$EXERCISE\b/m)) warnings.push('Found $EXERCISE — v2 uses $PRODUCE (drills/cloze) or $SELECT (multiple-choice) instead');
-  const tFields = t.match(/^\s*(LINE_T|PROMPT_T|RESPONSE_T|VOCAB_T|FEEDBACK_T):/gm);
-  if (tFields && tFields.length > 0) warnings.push(`Found ${tFields.length} translation field(s) (*_T) — v2 modules are monolingual; translations are generated downstream`);
-
-  // $SELECT items need ANSWER; $PRODUCE items need RESPONSE
-  for (const block of t.split(/^\$/m)) {
-    if (block.startsWith('SELECT') && !/^\s*ANSWER:/m.test(block)) warnings.push('A $SELECT activity is missing ANSWER lines');
-    if (block.startsWith('PRODUCE') && !/^\s*RESPONSE:/m.test(block)) warnings.push('A $PRODUCE activity is missing RESPONSE lines');
+// ============================================================================
+// LINT + REPAIR
+// ============================================================================
+
+// The canonical parser + linter (module-parser/*.ts), bundled on the fly — the
+// same rules lint-modules.mjs, the extension and the preview apply.
+async function loadLinter() {
+  const r = await build({
+    stdin: {
+      contents: 'export { lintModuleText } from "./module_diagnostics"; export { parseModuleFile } from "./module_parser";',
+      resolveDir: path.resolve(__dirname, '../module-parser'),
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+/**
+ * Lint diagnostics for a converted module, sorted by line, plus the parser's
+ * error (code `parse-error`) when parseModuleFile rejects the file.
+ */
+function checkModuleOutput(linter, text) {
+  const diags = linter.lintModuleText(text);
+  // The parser also warns on the console; the linter already reports the same problems.
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    linter.parseModuleFile(text);
+  } catch (error) {
+    const line = Number(error.message.match(/at line (\d+)/)?.[1] ?? 1);
+    diags.push({ severity: 'error', line, message: error.message, code: 'parse-error' });
+  } finally {
+    console.warn = warn;
   }
+  return diags.sort((a, b) => a.line - b.line);
+}
 
-  // Speaker labels in VOICE_SPEAKER mappings should not contain spaces
-  const voiceSpeakerLines = t.match(/^\s*VOICE_SPEAKER:\s*.+$/gm) || [];
-  const speakerLabelCaseMap = new Map(); // lower -> firstSeenOriginal
-  for (const line of voiceSpeakerLines) {
-    const m = line.match(/^\s*VOICE_SPEAKER:\s*([^=]+?)\s*=\s*([^\s|]+)\b/);
-    if (m) {
-      const speakerLabel = m[1].trim();
-      if (/\s/.test(speakerLabel)) {
-        warnings.push(`VOICE_SPEAKER label contains spaces ("${speakerLabel}"). Use a no-spaces label like "M_Lelong".`);
-        break;
-      }
+// Follow-up turn asking the model to fix exactly the error-level diagnostics.
+// After a dropped reply (`rejected` says why), the errors are those of the
+// last module kept, which the model is asked to start again from.
+function buildRepairPrompt(text, errors, rejected = null) {
+  const lines = text.split('\n');
+  const list = errors.map((d) => {
+    const source = (lines[d.line - 1] ?? '').trim();
+    return `- line ${d.line}${source ? ` \`${source}\`` : ''}: ${d.message} [${d.code ?? 'lint'}]`;
+  });
+  const intro = rejected
+    ? `Your last reply was discarded (${rejected}). Start again from the module you returned before it, in which the module format linter reports ${errors.length} error(s):`
+    : `The module format linter reports ${errors.length} error(s) in the module you returned:`;
+  return `${intro}
 
-      // Case-insensitive: warn if the same label appears with different casing
-      const key = speakerLabel.toLowerCase();
-      const prev = speakerLabelCaseMap.get(key);
-      if (prev && prev !== speakerLabel) {
-        warnings.push(`VOICE_SPEAKER label casing differs ("${prev}" vs "${speakerLabel}"). Labels are case-insensitive; use consistent casing.`);
-        break;
-      }
-      if (!prev) speakerLabelCaseMap.set(key, speakerLabel);
-    }
+${list.join('\n')}
+
+Fix these errors and nothing else. Return the COMPLETE corrected module (every line, not only the changed ones), with no commentary.`;
+}
+
+function countSections(text) {
+  return (text.match(/^\$(LESSON|DIALOGUE|GRAMMAR|SELECT|PRODUCE|CHAT)/gm) || []).length;
+}
+
+// A repair asked to fix errors and nothing else should not lose this much.
+const REPAIR_MIN_LINES = 0.9;
+
+// Why a repaired module is worse than the one it repairs (null if it is not):
+// more errors, or shorter — a repair that fixes errors by dropping content.
+function repairRegression(text, diags, repaired, repairedDiags) {
+  const errorCount = (ds) => ds.filter((d) => d.severity === 'error').length;
+  const lineCount = (t) => t.split('\n').filter((l) => l.trim()).length;
+  if (errorCount(repairedDiags) > errorCount(diags)) {
+    return `${errorCount(repairedDiags)} error(s), up from ${errorCount(diags)}`;
+  }
+  if (countSections(repaired) < countSections(text)) {
+    return `${countSections(repaired)} section(s), down from ${countSections(text)}`;
+  }
+  if (lineCount(repaired) < lineCount(text) * REPAIR_MIN_LINES) {
+    return `${lineCount(repaired)} line(s), down from ${lineCount(text)}`;
   }
+  return null;
+}
 
-  return warnings;
+// Compiler-style report, as lint-modules.mjs prints it, with a summary line.
+function formatLintReport(file, diags, repairRounds) {
+  const errors = diags.filter((d) => d.severity === 'error').length;
+  const lines = diags.map((d) => `${file}:${d.line}: ${d.severity} ${d.code ?? 'lint'} ${d.message}`);
+  lines.push(`${errors} error(s), ${diags.length - errors} warning(s) after ${repairRounds} repair round(s).`);
+  return lines.join('\n') + '\n';
 }
 
 // ============================================================================
@@ -227,6 +277,8 @@ async function convertCourse() {
   console.log(`Output: ${config.outputDir}`);
   console.log(`Model: ${config.model}`);
   console.log(`Max Tokens: ${config.maxTokens}`);
+  console.log(`Repair rounds: ${config.repairRounds}`);
+  console.log(`Model provider: ${config.provider.mode}`);
   console.log('');
   
   // Ensure output directory exists
@@ -249,6 +301,7 @@ async function convertCourse() {
 
   const progress = new ProgressTracker(inputFiles.length);
   const systemPrompt = buildSystemPrompt(config);
+  const linter = await loadLinter();
 
   for (let i = 0; i < inputFiles.length; i++) {
     const filename = inputFiles[i];
@@ -257,6 +310,7 @@ async function convertCourse() {
     const inputPath = path.join(config.inputDir, filename);
     const outputFilename = `${baseName}.module`;
     const outputPath = path.join(config.outputDir, outputFilename);
+    const reportPath = path.join(config.outputDir, `${baseName}.lint.txt`);
 
     // Skip if already processed
     if (fileExists(outputPath)) {
@@ -279,31 +333,58 @@ async function convertCourse() {
 
       // Call Gemini API
       const userPrompt = `Convert this ${config.courseName} module to module format:\n\n${markdownText}`;
-      const moduleResponse = await callGemini(userPrompt, {
+      const geminiOptions = {
         model: config.model,
         systemPrompt: systemPrompt,
         temperature: config.temperature,
         maxTokens: config.maxTokens,
         thinkingBudget: config.thinkingBudget,
-      });
+        provider: config.provider,
+      };
+      const moduleResponse = await callGemini(userPrompt, geminiOptions);
 
       // Strip markdown code blocks if present
-      const cleanModule = stripMarkdownCodeBlocks(moduleResponse);
+      let cleanModule = stripMarkdownCodeBlocks(moduleResponse);
+
+      // Lint with the canonical rules; send error-level diagnostics back to
+      // the model, in the same conversation, until clean or out of rounds.
+      // A repair that regresses is dropped and the best version kept; the
+      // dropped turn stays in the conversation and the next round says why, so
+      // no two rounds send the same request (cassettes are keyed by request).
+      let diags = checkModuleOutput(linter, cleanModule);
+      let rounds = 0;
+      let rejected = null;
+      const history = [{ role: 'user', content: userPrompt }, { role: 'assistant', content: cleanModule }];
+      while (rounds < config.repairRounds) {
+        const errors = diags.filter((d) => d.severity === 'error');
+        if (!errors.length) break;
+        rounds++;
+        progress.logWarning(`${errors.length} lint error(s) — repair round ${rounds}/${config.repairRounds}`);
+        const repairPrompt = buildRepairPrompt(cleanModule, errors, rejected);
+        if (!config.provider.offline) await sleep(config.delayBetweenRequests);
+        const repaired = stripMarkdownCodeBlocks(await callGemini(repairPrompt, { ...geminiOptions, history }));
+        history.push({ role: 'user', content: repairPrompt }, { role: 'assistant', content: repaired });
+        const repairedDiags = checkModuleOutput(linter, repaired);
+        rejected = repairRegression(cleanModule, diags, repaired, repairedDiags);
+        if (rejected) {
+          progress.logWarning(`Repair round ${rounds} dropped: ${rejected}`);
+          continue;
+        }
+        cleanModule = repaired;
+        diags = repairedDiags;
+      }
+      for (const d of diags) progress.logWarning(`line ${d.line}: ${d.severity} ${d.code ?? 'lint'} ${d.message}`);
 
-      // Validation warnings (format rules live in shared module_format.md)
-      const warnings = validateModuleOutput(cleanModule);
-      for (const w of warnings) progress.logWarning(w);
-      
-      // Save the module file
+      // Save the module file, with its final lint report beside it
       writeTextFile(outputPath, cleanModule);
+      writeTextFile(reportPath, formatLintReport(outputFilename, diags, rounds));
 
       progress.logSuccess(`Saved: ${outputFilename}`);
-      const sectionCount = (cleanModule.match(/^\$(LESSON|DIALOGUE|GRAMMAR|SELECT|PRODUCE|CHAT)/gm) || []).length;
-      console.log(`  - Sections: ${sectionCount}`);
+      console.log(`  - Sections: ${countSections(cleanModule)}`);
       progress.incrementSuccess();
 
       // Wait between requests
-      if (i < inputFiles.length - 1) {
+      if (i < inputFiles.length - 1 && !config.provider.offline) {
         progress.logWaiting(config.delayBetweenRequests / 1000);
         await sleep(config.delayBetweenRequests);
       }
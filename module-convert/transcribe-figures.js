@@ -17,13 +17,18 @@
  *   node module-convert/transcribe-figures.js --config configs/alc-lla-4/module-convert.json [LESSON ...] [--force]
  *
  * Env: ALIGN_URL (default http://192.168.200.210:13000), GEMINI_API_KEY.
+ *
+ * Both model calls go through the config's "modelProvider" (lib/model-provider.js):
+ * "record" stores them as cassettes, "replay" reruns a lesson offline.
  */
 
 import 'dotenv/config';
 import fs from 'fs';
 import path from 'path';
 import { execFileSync } from 'child_process';
+import crypto from 'crypto';
 import { GoogleGenAI } from '@google/genai';
+import { modelProviderFromConfig } from '../lib/model-provider.js';
 
 const ALIGN_URL = process.env.ALIGN_URL || 'http://192.168.200.210:13000';
 const GEMINI_MODEL = 'gemini-3.5-flash';
@@ -49,6 +54,7 @@ function loadConfig(configPath) {
   return {
     audioDir: c.audioDir ? path.resolve(dir, c.audioDir) : path.join(dataDir, 'audio'),
     transcriptsDir: c.transcriptsDir ? path.resolve(dir, c.transcriptsDir) : path.join(dataDir, 'transcripts'),
+    provider: modelProviderFromConfig(c.modelProvider, dir),
   };
 }
 
@@ -61,8 +67,15 @@ const TRANSCRIBE_PROMPT = `Transcribe this language-learning cassette audio EXAC
 - Include EVERYTHING spoken: counting cues ("Number one."), instructions, repeated readings, answer keys.
 - Do not add commentary, headings, or timestamps — output only the transcript lines.`;
 
-async function geminiTranscribe(genai, mp3Path) {
-  const data = fs.readFileSync(mp3Path).toString('base64');
+const sha256 = (buf) => crypto.createHash('sha256').update(buf).digest('hex');
+
+async function geminiTranscribe(genai, provider, mp3Path) {
+  const audio = fs.readFileSync(mp3Path);
+  const request = { model: GEMINI_MODEL, prompt: TRANSCRIBE_PROMPT, audioSha256: sha256(audio) };
+  return provider.run(request, () => geminiTranscribeLive(genai, audio.toString('base64')));
+}
+
+async function geminiTranscribeLive(genai, data) {
   for (let attempt = 1; attempt <= 3; attempt++) {
     try {
       const resp = await genai.models.generateContent({
@@ -84,7 +97,13 @@ async function geminiTranscribe(genai, mp3Path) {
 // Qwen forced alignment
 // ----------------------------------------------------------------------------
 
-async function qwenAlign(wavPath, text) {
+// `audioSha256` identifies the source audio for the model provider's cassettes.
+async function qwenAlign(provider, wavPath, audioSha256, text) {
+  const request = { aligner: 'qwen', lang: 'en', text, audioSha256 };
+  return JSON.parse(await provider.run(request, async () => JSON.stringify(await qwenAlignLive(wavPath, text))));
+}
+
+async function qwenAlignLive(wavPath, text) {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), ALIGN_TIMEOUT_MS);
   try {
@@ -148,16 +167,16 @@ function pairTokens(tokens, words) {
 // Per-figure processing
 // ----------------------------------------------------------------------------
 
-async function processFigure(genai, mp3Path, outBase) {
+async function processFigure(genai, provider, mp3Path, outBase) {
   // 1. Transcribe
-  const text = await geminiTranscribe(genai, mp3Path);
+  const text = await geminiTranscribe(genai, provider, mp3Path);
   const lines = text.split('\n').map((l) => l.trim()).filter(Boolean);
 
   // 2. Align full text
   const wavPath = '/tmp/transcribe-fig.wav';
   execFileSync('ffmpeg', ['-y', '-loglevel', 'error', '-i', mp3Path, '-ar', '16000', '-ac', '1', wavPath], { stdio: 'pipe' });
   const fullText = lines.join(' ');
-  const alignedWords = await qwenAlign(wavPath, fullText);
+  const alignedWords = await qwenAlign(provider, wavPath, sha256(fs.readFileSync(mp3Path)), fullText);
 
   // 3. Pair tokens with aligned words, then group into one segment per line.
   const tokens = fullText.split(/\s+/);
@@ -194,8 +213,12 @@ async function processFigure(genai, mp3Path, outBase) {
 async function main() {
   const { configPath, lessons, force } = parseArgs();
   const cfg = loadConfig(configPath);
-  if (!process.env.GEMINI_API_KEY) { console.error('GEMINI_API_KEY not set'); process.exit(1); }
-  const genai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  // Replaying cassettes needs no key (and makes no network calls).
+  let genai = null;
+  if (!cfg.provider.offline) {
+    if (!process.env.GEMINI_API_KEY) { console.error('GEMINI_API_KEY not set'); process.exit(1); }
+    genai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  }
 
   let lessonDirs = fs.readdirSync(cfg.audioDir).filter((d) => /^Lesson \d+[A-D]$/.test(d)).sort();
   if (lessons.length) lessonDirs = lessonDirs.filter((d) => lessons.includes(d.replace('Lesson ', '')));
@@ -218,7 +241,7 @@ async function main() {
       }
       try {
         const t0 = Date.now();
-        const r = await processFigure(genai, path.join(audioLessonDir, f), outBase);
+        const r = await processFigure(genai, cfg.provider, path.join(audioLessonDir, f), outBase);
         console.log(`  ${f}: ${r.lines} lines, ${r.words} words${r.mismatch ? ' (token mismatch, LCS-paired)' : ''} [${((Date.now() - t0) / 1000).toFixed(0)}s]`);
       } catch (e) {
         console.error(`  ${f}: FAILED — ${e.message}`);
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Structural diff between two versions of a module with the CANONICAL differ
+ * (diffModules in module_diff.ts, bundled on the fly) — the same alignment the
+ * preview's side-by-side view shows.
+ *
+ * Usage:
+ *   node module-parser/diff-modules.mjs 1A.prev.module 1A.new.module
+ *   node module-parser/diff-modules.mjs data/x/module.prev data/x/module --format json
+ *
+ * Two files are compared as they are. Two directories are compared file by
+ * file: .module files with the same name are diffed, and a file on one side
+ * only is listed as added / removed.
+ *
+ * Output (--format):
+ *   text  (default) one line per change, e.g.
+ *           ~ lesson-1 / produce-drill / item 3: RESPONSE "three" → "three!"
+ *           ↕ lesson-1 / dialogue-talk / line 3 (was line 1)
+ *           + lesson-1 / select-which-sport
+ *   json  [{ a, b, changes: [{ kind, where, lesson, activity, element, label, before, after }], counts }]
+ *
+ * Exit code: 1 if anything differs (like diff), 2 on usage errors, else 0.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const FORMATS = new Set(['text', 'json']);
+const MARKS = { added: '+', removed: '-', moved: '↕', changed: '~' };
+const VALUE_MAX = 80;
+
+function usage(msg) {
+  if (msg) console.error(`diff-modules: ${msg}`);
+  console.error('Usage: node module-parser/diff-modules.mjs <a.module|dir> <b.module|dir> [--format text|json]');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], format: 'text' };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format') opts.format = argv[++i];
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (opts.paths.length !== 2) usage('expected two files or two directories');
+  if (!FORMATS.has(opts.format)) usage(`unknown format "${opts.format}"`);
+  for (const p of opts.paths) if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  return opts;
+}
+
+// The canonical parser + differ, bundled from TS on the fly.
+async function loadDiffer() {
+  const r = await build({
+    stdin: {
+      contents: 'export { parseModuleFileTolerant } from "./module_parser"; export { diffModules, countChanges } from "./module_diff";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+// [a, b] file pairs; one side is null for a file only the other directory has.
+function filePairs([a, b]) {
+  const aDir = fs.statSync(a).isDirectory();
+  if (aDir !== fs.statSync(b).isDirectory()) usage('compare two files or two directories, not one of each');
+  if (!aDir) return [[a, b]];
+  const names = (dir) => fs.readdirSync(dir).filter((n) => n.endsWith('.module'));
+  const all = [...new Set([...names(a), ...names(b)])].sort();
+  return all.map((n) => [fs.existsSync(path.join(a, n)) ? path.join(a, n) : null, fs.existsSync(path.join(b, n)) ? path.join(b, n) : null]);
+}
+
+function parse(differ, file) {
+  // The parser warns about unknown markers on the console; the diff is what matters here.
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return differ.parseModuleFileTolerant(fs.readFileSync(file, 'utf8')).module;
+  } finally {
+    console.warn = warn;
+  }
+}
+
+function formatValue(v) {
+  if (v === null) return '—';
+  if (typeof v === 'boolean') return v ? 'on' : 'off';
+  const s = v.replace(/\s+/g, ' ');
+  return JSON.stringify(s.length > VALUE_MAX ? `${s.slice(0, VALUE_MAX)}…` : s);
+}
+
+function formatChange(c) {
+  if (c.kind === 'changed') return `${MARKS.changed} ${c.where}: ${c.label} ${formatValue(c.before)} → ${formatValue(c.after)}`;
+  if (c.kind === 'moved') return `${MARKS.moved} ${c.where} (${c.label})`;
+  return `${MARKS[c.kind]} ${c.where}`;
+}
+
+const opts = parseArgs(process.argv.slice(2));
+const differ = await loadDiffer();
+
+const reports = filePairs(opts.paths).map(([a, b]) => {
+  if (!a || !b) return { a, b, changes: null };
+  const diff = differ.diffModules(parse(differ, a), parse(differ, b));
+  return { a, b, changes: diff.changes, counts: differ.countChanges(diff) };
+});
+const differs = reports.some((r) => r.changes === null || r.changes.length);
+
+if (opts.format === 'json') {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  for (const r of reports) {
+    if (!r.a) console.log(`+ ${r.b} (only in ${opts.paths[1]})`);
+    else if (!r.b) console.log(`- ${r.a} (only in ${opts.paths[0]})`);
+    else if (r.changes.length) {
+      console.log(`${r.a} → ${r.b}`);
+      for (const c of r.changes) console.log(`  ${formatChange(c)}`);
+      console.log(`  ${Object.entries(r.counts).map(([k, n]) => `${n} ${k}`).join(', ')}\n`);
+    }
+  }
+  if (!differs) console.error('No structural differences.');
+}
+
+process.exit(differs ? 1 : 0);
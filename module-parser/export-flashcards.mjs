@@ -0,0 +1,422 @@
+#!/usr/bin/env node
+/**
+ * Export flashcards from .module files with the CANONICAL extractor
+ * (moduleFlashcards in module_flashcards.ts, bundled on the fly): REPEAT
+ * dialogue lines and VOCAB items, with their clips and images.
+ *
+ * Usage:
+ *   node module-parser/export-flashcards.mjs data/alc-lla-4/module/lesson-1A.module --out 1A.apkg
+ *   node module-parser/export-flashcards.mjs data/x/module/x.course --out course.apkg
+ *   node module-parser/export-flashcards.mjs data/x/module/ --out cards.tsv --all-lines
+ *
+ * Directories are searched recursively for *.module. A .course file stands for
+ * the .module files beside it and names the deck (--deck overrides; otherwise
+ * a single module's title, else "Modules"). Media come from each module's asset
+ * folder (`<name>/` next to it); missing files are reported and left out.
+ * Media are exported as `<module file name>-<file>`, so two modules with the
+ * same clip or page name keep their own files.
+ *
+ * Output (by --out extension, or --format):
+ *   apkg  an Anki package: one deck, note type "Module card" (fields Front,
+ *         Back, Example, Notes, Audio, Image, Source), media included.
+ *         Needs the sqlite3 command-line tool.
+ *   csv / tsv  one row per card with Anki import headers (#guid column, #tags
+ *         column, #columns); media are copied to `<out name>.media/`.
+ *
+ * Note GUIDs (and the note type / deck ids) are stable, so importing a new
+ * export over an old one updates the existing cards (module_flashcards.ts says
+ * which edits still make new ones). Two cards with the same GUID (modules with
+ * the same DIOCO_DOC_ID) are reported and nothing is written.
+ *
+ * Exit code: 1 if a module does not parse (it is left out), a referenced media
+ * file is missing or GUIDs collide, 2 on usage errors, else 0.
+ */
+import crypto from 'node:crypto';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const FORMATS = new Set(['apkg', 'csv', 'tsv']);
+const NOTE_TYPE = 'Module card';
+const FIELDS = ['Front', 'Back', 'Example', 'Notes', 'Audio', 'Image', 'Source'];
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 24px; text-align: center; color: black; background-color: white; }
+.image img { max-width: 100%; max-height: 320px; }
+.back { font-size: 20px; }
+.example, .notes { font-size: 18px; color: #555; margin-top: 8px; }
+.source { font-size: 12px; color: #999; margin-top: 16px; }`;
+const FRONT_TEMPLATE = '<div class="front">{{Front}}</div>{{#Image}}<div class="image">{{Image}}</div>{{/Image}}';
+const BACK_TEMPLATE =
+  '{{FrontSide}}<hr id="answer">' +
+  '{{#Back}}<div class="back">{{Back}}</div>{{/Back}}' +
+  '{{#Example}}<div class="example">{{Example}}</div>{{/Example}}' +
+  '{{#Notes}}<div class="notes">{{Notes}}</div>{{/Notes}}' +
+  '{{Audio}}<div class="source">{{Source}}</div>';
+
+function usage(msg) {
+  if (msg) console.error(`export-flashcards: ${msg}`);
+  console.error('Usage: node module-parser/export-flashcards.mjs <file|dir>... --out deck.apkg|deck.csv|deck.tsv [--format apkg|csv|tsv] [--deck name] [--all-lines]');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], out: null, format: null, deck: null, allLines: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--out') opts.out = argv[++i];
+    else if (a === '--format') opts.format = argv[++i];
+    else if (a === '--deck') opts.deck = argv[++i];
+    else if (a === '--all-lines') opts.allLines = true;
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (!opts.paths.length) usage('no files or directories given');
+  if (!opts.out) usage('--out is required');
+  opts.format ??= path.extname(opts.out).slice(1).toLowerCase();
+  if (!FORMATS.has(opts.format)) usage(`unknown format "${opts.format}" (use --format apkg|csv|tsv)`);
+  return opts;
+}
+
+// .module files, and .course files expanded to the modules beside them.
+function collectFiles(p, out, courses) {
+  if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  if (fs.statSync(p).isFile()) {
+    if (p.endsWith('.course')) {
+      courses.push(p);
+      const dir = path.dirname(p);
+      for (const n of fs.readdirSync(dir).filter((n) => n.endsWith('.module')).sort()) out.push(path.join(dir, n));
+    } else {
+      out.push(p);
+    }
+    return out;
+  }
+  for (const ent of fs.readdirSync(p, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (ent.name.startsWith('.') || ent.name === 'node_modules') continue;
+    const child = path.join(p, ent.name);
+    if (ent.isDirectory()) collectFiles(child, out, courses);
+    else if (ent.name.endsWith('.module')) out.push(child);
+  }
+  return out;
+}
+
+// The canonical parser + card extractor, bundled from TS on the fly.
+async function loadExtractor() {
+  const r = await build({
+    stdin: {
+      contents:
+        'export { parseModuleFile, parseCourseFile } from "./module_parser"; export { moduleFlashcards, stableId } from "./module_flashcards";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+function parse(extractor, file) {
+  // The parser warns about unknown markers on the console; lint-modules reports those.
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return extractor.parseModuleFile(fs.readFileSync(file, 'utf8'));
+  } finally {
+    console.warn = warn;
+  }
+}
+
+const escapeHtml = (s) => (s ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Field values (HTML, as Anki stores them) in FIELDS order.
+function noteFields(card) {
+  return [
+    escapeHtml(card.front),
+    escapeHtml(card.back),
+    escapeHtml(card.example),
+    escapeHtml(card.notes),
+    card.audio ? `[sound:${card.audio}]` : '',
+    card.image ? `<img src="${escapeHtml(card.image)}">` : '',
+    escapeHtml(card.source),
+  ];
+}
+
+// Anki ids are positive integers; these come from the stable GUIDs / names.
+const idFrom = (hex) => parseInt(hex.slice(0, 13), 16);
+
+// =============================================================================
+// APKG
+// =============================================================================
+
+const sqlString = (s) => `'${String(s).replace(/'/g, "''")}'`;
+
+function collectionSql(cards, deckName, extractor) {
+  const now = Date.now();
+  const secs = Math.floor(now / 1000);
+  const modelId = idFrom(extractor.stableId(`notetype|${NOTE_TYPE}`));
+  const deckId = idFrom(extractor.stableId(`deck|${deckName}`));
+
+  const model = {
+    id: modelId,
+    name: NOTE_TYPE,
+    type: 0,
+    mod: secs,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, bqfmt: '', bafmt: '', did: null }],
+    flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+  const deck = (id, name) => ({
+    id,
+    name,
+    desc: '',
+    mod: secs,
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    extendNew: 10,
+    extendRev: 50,
+  });
+  const dconf = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  };
+  const conf = { nextPos: cards.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newSpread: 0, dueCounts: true, curModel: modelId, collapseTime: 1200 };
+
+  const sql = [
+    'BEGIN;',
+    'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);',
+    'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);',
+    'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);',
+    'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);',
+    'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);',
+    'CREATE INDEX ix_notes_usn on notes (usn);',
+    'CREATE INDEX ix_cards_usn on cards (usn);',
+    'CREATE INDEX ix_revlog_usn on revlog (usn);',
+    'CREATE INDEX ix_cards_nid on cards (nid);',
+    'CREATE INDEX ix_cards_sched on cards (did, queue, due);',
+    'CREATE INDEX ix_revlog_cid on revlog (cid);',
+    'CREATE INDEX ix_notes_csum on notes (csum);',
+    `INSERT INTO col VALUES (1, ${secs - (secs % 86400)}, ${now}, ${now}, 11, 0, 0, 0, ${sqlString(JSON.stringify(conf))}, ${sqlString(JSON.stringify({ [modelId]: model }))}, ${sqlString(JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }))}, ${sqlString(JSON.stringify({ 1: dconf }))}, '{}');`,
+  ];
+  cards.forEach((card, i) => {
+    const noteId = idFrom(card.guid);
+    const cardId = idFrom(extractor.stableId(`card|${card.guid}`));
+    const fields = noteFields(card);
+    const sortField = card.front;
+    const csum = parseInt(crypto.createHash('sha1').update(sortField).digest('hex').slice(0, 8), 16);
+    sql.push(
+      `INSERT INTO notes VALUES (${noteId}, ${sqlString(card.guid)}, ${modelId}, ${secs}, -1, ${sqlString(` ${card.tags.join(' ')} `)}, ${sqlString(fields.join('\x1f'))}, ${sqlString(sortField)}, ${csum}, 0, '');`,
+      `INSERT INTO cards VALUES (${cardId}, ${noteId}, ${deckId}, 0, ${secs}, -1, 0, 0, ${i + 1}, 0, 0, 0, 0, 0, 0, 0, 0, '');`,
+    );
+  });
+  sql.push('COMMIT;');
+  return sql.join('\n');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf) {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// A plain deflate zip of [name, Buffer] entries.
+function zip(entries) {
+  const local = [];
+  const central = [];
+  let offset = 0;
+  for (const [name, data] of entries) {
+    const nameBuf = Buffer.from(name, 'utf8');
+    const packed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+    const head = Buffer.alloc(30);
+    head.writeUInt32LE(0x04034b50, 0);
+    head.writeUInt16LE(20, 4);
+    head.writeUInt16LE(0x0800, 6); // UTF-8 names
+    head.writeUInt16LE(8, 8); // deflate
+    head.writeUInt32LE(crc, 14);
+    head.writeUInt32LE(packed.length, 18);
+    head.writeUInt32LE(data.length, 22);
+    head.writeUInt16LE(nameBuf.length, 26);
+    local.push(head, nameBuf, packed);
+
+    const dir = Buffer.alloc(46);
+    dir.writeUInt32LE(0x02014b50, 0);
+    dir.writeUInt16LE(20, 4);
+    dir.writeUInt16LE(20, 6);
+    dir.writeUInt16LE(0x0800, 8);
+    dir.writeUInt16LE(8, 10);
+    dir.writeUInt32LE(crc, 16);
+    dir.writeUInt32LE(packed.length, 20);
+    dir.writeUInt32LE(data.length, 24);
+    dir.writeUInt16LE(nameBuf.length, 28);
+    dir.writeUInt32LE(offset, 42);
+    central.push(dir, nameBuf);
+    offset += head.length + nameBuf.length + packed.length;
+  }
+  const centralSize = central.reduce((n, b) => n + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, ...central, end]);
+}
+
+function writeApkg(out, cards, media, deckName, extractor) {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'export-flashcards-'));
+  const db = path.join(tmp, 'collection.anki2');
+  try {
+    execFileSync('sqlite3', [db], { input: collectionSql(cards, deckName, extractor), stdio: ['pipe', 'ignore', 'pipe'] });
+    // Anki's media map: zip entry "0", "1", … → file name.
+    const names = [...media.keys()];
+    const entries = [
+      ['collection.anki2', fs.readFileSync(db)],
+      ['media', Buffer.from(JSON.stringify(Object.fromEntries(names.map((n, i) => [String(i), n]))))],
+      ...names.map((n, i) => [String(i), fs.readFileSync(media.get(n))]),
+    ];
+    fs.writeFileSync(out, zip(entries));
+  } catch (e) {
+    if (e.code === 'ENOENT') usage('the sqlite3 command-line tool is needed for .apkg (or export --format csv / tsv)');
+    throw e;
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+// =============================================================================
+// CSV / TSV
+// =============================================================================
+
+function writeTable(out, format, cards, media, deckName) {
+  const sep = format === 'tsv' ? '\t' : ',';
+  const cell = (s) => (/["\n\r]/.test(s) || s.includes(sep) ? `"${s.replace(/"/g, '""')}"` : s);
+  const rows = cards.map((card) => [card.guid, ...noteFields(card), card.tags.join(' ')].map(cell).join(sep));
+  const header = [
+    `#separator:${format === 'tsv' ? 'Tab' : 'Comma'}`,
+    '#html:true',
+    `#deck:${deckName}`,
+    '#guid column:1',
+    `#tags column:${FIELDS.length + 2}`,
+    `#columns:${['GUID', ...FIELDS, 'Tags'].join(sep)}`,
+  ];
+  fs.writeFileSync(out, [...header, ...rows].join('\n') + '\n');
+
+  if (!media.size) return;
+  const mediaDir = path.join(path.dirname(out), `${path.basename(out, path.extname(out))}.media`);
+  fs.mkdirSync(mediaDir, { recursive: true });
+  for (const [name, file] of media) fs.copyFileSync(file, path.join(mediaDir, name));
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+const opts = parseArgs(process.argv.slice(2));
+const courses = [];
+const files = [...new Set(opts.paths.flatMap((p) => collectFiles(p, [], courses)))];
+if (!files.length) usage('no .module files found');
+const extractor = await loadExtractor();
+
+const cards = [];
+const media = new Map(); // exported file name → path
+const missing = new Set(); // paths
+let failed = 0;
+let collisions = 0;
+const modules = [];
+for (const file of files) {
+  const base = path.basename(file, '.module');
+  let mod;
+  try {
+    mod = parse(extractor, file);
+  } catch (e) {
+    console.error(`${file}: ${e.message} (skipped)`);
+    failed++;
+    continue;
+  }
+  modules.push(mod);
+  // Exported media name of an asset (null when the file is missing).
+  const exported = (name) => {
+    if (!name) return null;
+    const p = path.join(path.dirname(file), base, name);
+    const out = `${base}-${name}`;
+    if (missing.has(p)) return null;
+    if (!fs.existsSync(p)) {
+      console.error(`${file}: missing media ${name}`);
+      missing.add(p);
+      return null;
+    }
+    if (media.has(out) && media.get(out) !== p) {
+      console.error(`${file}: media ${name} is exported as ${out}, which ${media.get(out)} already is`);
+      collisions++;
+    }
+    media.set(out, p);
+    return out;
+  };
+  for (const card of extractor.moduleFlashcards(mod, mod.moduleKey || base, { allLines: opts.allLines })) {
+    cards.push({ ...card, audio: exported(card.audio), image: exported(card.image) });
+  }
+}
+
+const byGuid = new Map();
+for (const card of cards) {
+  const other = byGuid.get(card.guid);
+  if (other) {
+    console.error(`duplicate card id ${card.guid}: "${other.front}" (${other.source}) and "${card.front}" (${card.source})`);
+    collisions++;
+  }
+  byGuid.set(card.guid, card);
+}
+if (collisions) {
+  console.error(`${opts.out}: not written (${collisions} clash(es); modules with the same DIOCO_DOC_ID or file name?)`);
+  process.exit(1);
+}
+
+const deckName =
+  opts.deck ??
+  (courses.length === 1 ? extractor.parseCourseFile(fs.readFileSync(courses[0], 'utf8')).title : null) ??
+  (modules.length === 1 ? modules[0].title : 'Modules');
+
+if (opts.format === 'apkg') writeApkg(opts.out, cards, media, deckName, extractor);
+else writeTable(opts.out, opts.format, cards, media, deckName);
+
+const count = (kind) => cards.filter((c) => c.kind === kind).length;
+console.error(`${opts.out}: ${cards.length} card(s) (${count('line')} line, ${count('vocab')} vocab), ${media.size} media file(s), deck "${deckName}".`);
+process.exit(failed || missing.size ? 1 : 0);
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Format .module files with the CANONICAL formatter (formatModuleText in
+ * module_language.ts, bundled on the fly) — the same layout the extension's
+ * Format Document / format-on-save and the LSP server produce.
+ *
+ * Usage:
+ *   node module-parser/format-modules.mjs data/fsi-french/module/
+ *   node module-parser/format-modules.mjs a.module b.module
+ *   node module-parser/format-modules.mjs data/alc-lla-4 --check
+ *
+ * Directories are searched recursively for *.module.
+ * Without --check, files are rewritten in place (only those that change).
+ * --check writes nothing: it lists files that are not formatted and exits 1 if
+ * there are any (for CI / pre-commit).
+ *
+ * Formatting never changes what the parser reads; see formatModuleText.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+function usage(msg) {
+  if (msg) console.error(`format-modules: ${msg}`);
+  console.error('Usage: node module-parser/format-modules.mjs <file|dir>... [--check]');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], check: false };
+  for (const a of argv) {
+    if (a === '--check') opts.check = true;
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (!opts.paths.length) usage('no files or directories given');
+  return opts;
+}
+
+async function loadFormatter() {
+  const r = await build({
+    stdin: {
+      contents: 'export { formatModuleText } from "./module_language";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+function collectFiles(p, out) {
+  if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  if (fs.statSync(p).isFile()) {
+    out.push(p);
+    return out;
+  }
+  for (const ent of fs.readdirSync(p, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (ent.name.startsWith('.') || ent.name === 'node_modules') continue;
+    const child = path.join(p, ent.name);
+    if (ent.isDirectory()) collectFiles(child, out);
+    else if (ent.name.endsWith('.module')) out.push(child);
+  }
+  return out;
+}
+
+const opts = parseArgs(process.argv.slice(2));
+const files = opts.paths.flatMap((p) => collectFiles(p, []));
+const { formatModuleText } = await loadFormatter();
+
+const changed = [];
+for (const file of files) {
+  const text = fs.readFileSync(file, 'utf8');
+  const formatted = formatModuleText(text);
+  if (formatted === text) continue;
+  changed.push(file);
+  if (!opts.check) fs.writeFileSync(file, formatted);
+}
+
+for (const file of changed) console.log(opts.check ? `not formatted: ${file}` : `formatted: ${file}`);
+console.error(`\n${files.length} file(s): ${changed.length} ${opts.check ? 'need formatting' : 'rewritten'}.`);
+
+process.exit(opts.check && changed.length ? 1 : 0);
@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+/**
+ * Try the RUBRICs of `CHECK: llm` PRODUCE items before publishing: grade sample
+ * answers with the CANONICAL graders (module_grading.ts, bundled on the fly)
+ * and report where the verdict is not the expected one.
+ *
+ * Usage:
+ *   node module-parser/grade-modules.mjs data/fsi-french/module/
+ *   node module-parser/grade-modules.mjs a.module --grader gemini
+ *   node module-parser/grade-modules.mjs data/x/module --answers probes.json --format json
+ *
+ * Directories are searched recursively for *.module. Each non-example llm item
+ * is graded with its RESPONSE and every ACCEPT, which should come out
+ * "correct" — a rubric that rejects its own model answer is broken. Further
+ * sample answers come from --answers, a JSON array of
+ *   { "module": "unit01.module", "activity": "produce-…", "item": 1,
+ *     "answer": "…", "expect": "correct" | "partial" | "incorrect" }
+ * (`module` is matched against the file name and may be left out; `activity`
+ * is the parser's id, as printed in the report; `item` counts from 1).
+ *
+ * Graders (--grader):
+ *   rubric  (default) the deterministic local stand-in: quoted rubric phrases
+ *           must appear in the answer. No network, same result every run.
+ *   gemini  the model grader through lib/gemini-api.js (GEMINI_API_KEY);
+ *           --model picks the model (default gemini-2.5-flash).
+ *           MODEL_PROVIDER=record|replay with MODEL_CASSETTES=<dir> stores the
+ *           replies / serves them offline (lib/model-provider.js).
+ *
+ * Output (--format): text (default) `file:line: ok|MISMATCH verdict …`, or json.
+ * Exit code: 1 if any verdict differs from the expected one, 2 on usage errors.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const GRADERS = new Set(['rubric', 'gemini']);
+const FORMATS = new Set(['text', 'json']);
+const VERDICTS = new Set(['correct', 'partial', 'incorrect']);
+
+function usage(msg) {
+  if (msg) console.error(`grade-modules: ${msg}`);
+  console.error(
+    'Usage: node module-parser/grade-modules.mjs <file|dir>... [--grader rubric|gemini] [--model name] [--answers file.json] [--format text|json]',
+  );
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], grader: 'rubric', model: 'gemini-2.5-flash', answers: null, format: 'text' };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--grader') opts.grader = argv[++i];
+    else if (a === '--model') opts.model = argv[++i];
+    else if (a === '--answers') opts.answers = argv[++i];
+    else if (a === '--format') opts.format = argv[++i];
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (!opts.paths.length) usage('no files or directories given');
+  if (!GRADERS.has(opts.grader)) usage(`unknown grader "${opts.grader}"`);
+  if (!FORMATS.has(opts.format)) usage(`unknown format "${opts.format}"`);
+  return opts;
+}
+
+function loadAnswers(file) {
+  if (!file) return [];
+  let probes;
+  try {
+    probes = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    usage(`cannot read answers ${file}: ${e.message}`);
+  }
+  if (!Array.isArray(probes)) usage(`answers ${file}: expected a JSON array`);
+  for (const [i, p] of probes.entries()) {
+    if (typeof p.activity !== 'string' || !Number.isInteger(p.item) || typeof p.answer !== 'string' || !VERDICTS.has(p.expect)) {
+      usage(`answers ${file}[${i}]: needs activity, item (number), answer and expect (correct|partial|incorrect)`);
+    }
+  }
+  return probes;
+}
+
+// The canonical parser + graders, bundled from TS on the fly.
+async function loadGrading() {
+  const r = await build({
+    stdin: {
+      contents:
+        'export { parseModuleFileTolerant } from "./module_parser"; export { getSourceMap } from "./module_language"; export * from "./module_grading";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+function collectFiles(p, out) {
+  if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  if (fs.statSync(p).isFile()) {
+    out.push(p);
+    return out;
+  }
+  for (const ent of fs.readdirSync(p, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (ent.name.startsWith('.') || ent.name === 'node_modules') continue;
+    const child = path.join(p, ent.name);
+    if (ent.isDirectory()) collectFiles(child, out);
+    else if (ent.name.endsWith('.module')) out.push(child);
+  }
+  return out;
+}
+
+async function makeGrader(grading, opts, mod) {
+  if (opts.grader === 'rubric') return grading.createRubricGrader(mod.targetLang_G);
+  const { callGemini, isRateLimitError } = await import('../lib/gemini-api.js');
+  const { modelProviderFromConfig } = await import('../lib/model-provider.js');
+  const provider = modelProviderFromConfig(null);
+  const complete = async (prompt) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await callGemini(prompt, { model: opts.model, temperature: 0, maxTokens: 1000, provider });
+      } catch (e) {
+        if (attempt >= 3 || !isRateLimitError(e)) throw e;
+        await new Promise((resolve) => setTimeout(resolve, 15000 * attempt));
+      }
+    }
+  };
+  return grading.createModelGrader(complete, { name: 'gemini', targetLang: mod.targetLang_G, homeLang: mod.homeLang_G });
+}
+
+async function gradeModule(grading, file, opts, probes) {
+  const text = fs.readFileSync(file, 'utf8');
+  const { module: mod } = grading.parseModuleFileTolerant(text);
+  const sourceMap = grading.getSourceMap(text, mod);
+  const mine = probes.filter((p) => !p.module || path.basename(file) === path.basename(p.module));
+  let grader = null;
+  const results = [];
+
+  for (const [li, lesson] of mod.lessons.entries()) {
+    for (const [ai, activity] of lesson.activities.entries()) {
+      if (activity.type !== 'PRODUCE' || activity.check !== 'llm') continue;
+      for (const [ii, item] of activity.items.entries()) {
+        if (item.isExample) continue;
+        const samples = [
+          ...[item.response, ...(item.accept ?? [])].filter((s) => s != null).map((answer) => ({ answer, expect: 'correct' })),
+          ...mine.filter((p) => p.activity === activity.id && p.item === ii + 1),
+        ];
+        if (!samples.length) continue;
+        grader ??= await makeGrader(grading, opts, mod);
+        const line = sourceMap[li]?.children[ai]?.children[ii]?.line ?? 1;
+        for (const { answer, expect } of samples) {
+          let got;
+          try {
+            got = await grader.grade(item, item.rubric, answer);
+          } catch (e) {
+            got = { verdict: 'error', feedback: e.message };
+          }
+          results.push({ file, line, activity: activity.id, item: ii + 1, answer, expect, ...got, ok: got.verdict === expect });
+        }
+      }
+    }
+  }
+  return results;
+}
+
+const opts = parseArgs(process.argv.slice(2));
+const probes = loadAnswers(opts.answers);
+const files = opts.paths.flatMap((p) => collectFiles(p, []));
+const grading = await loadGrading();
+
+const results = [];
+for (const file of files) results.push(...(await gradeModule(grading, file, opts, probes)));
+const mismatches = results.filter((r) => !r.ok).length;
+
+if (opts.format === 'json') {
+  console.log(JSON.stringify(results, null, 2));
+} else {
+  for (const r of results) {
+    const expected = r.ok ? '' : ` (expected ${r.expect})`;
+    const feedback = r.feedback ? ` — ${r.feedback}` : '';
+    console.log(`${r.file}:${r.line}: ${r.ok ? 'ok' : 'MISMATCH'} ${r.verdict}${expected} ${r.activity} #${r.item} "${r.answer}"${feedback}`);
+  }
+  console.error(`\n${files.length} file(s), ${results.length} answer(s) graded with ${opts.grader}: ${mismatches} mismatch(es).`);
+}
+
+process.exit(mismatches ? 1 : 0);
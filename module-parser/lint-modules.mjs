@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+/**
+ * Lint .module / .course files with the CANONICAL linter (module_diagnostics.ts,
+ * bundled on the fly) — the same rules the extension and the preview run.
+ *
+ * Usage:
+ *   node module-parser/lint-modules.mjs data/fsi-french/module/
+ *   node module-parser/lint-modules.mjs a.module b.module --format json
+ *   node module-parser/lint-modules.mjs data/alc-lla-4 --format sarif > lint.sarif
+ *   node module-parser/lint-modules.mjs data/x/module --config lint-modules.json
+ *
+ * Directories are searched recursively for *.module and *.course.
+ * Each .module is also checked against its asset folder (`<name>/` next to it):
+ * missing / unused / wrongly-cased files and leftover `@start-end` clip timings.
+ * --no-assets skips that pass.
+ * Each .course is validated together with the .module files beside it
+ * (module_course.ts: language mismatches, duplicate moduleKeys / titles, missing
+ * covers), and a per-course module summary is printed (text format).
+ *
+ * Output (--format):
+ *   text   (default) compiler style: `file:line: severity code message`
+ *   json   [{ file, line, severity, code, message }]
+ *   sarif  SARIF 2.1.0, for CI code-scanning uploads
+ *
+ * Config (--config <file>; default: ./lint-modules.json if present):
+ *   { "severity": { "missing-dioco-doc-id": "off", "raw-content": "error" } }
+ * Per-code overrides: "error" | "warning" | "off".
+ *
+ * Exit code: 1 if any error remains after overrides, 2 on usage errors, else 0.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const SEVERITIES = new Set(['error', 'warning', 'off']);
+const FORMATS = new Set(['text', 'json', 'sarif']);
+
+function usage(msg) {
+  if (msg) console.error(`lint-modules: ${msg}`);
+  console.error('Usage: node module-parser/lint-modules.mjs <file|dir>... [--format text|json|sarif] [--config file] [--no-assets]');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], format: 'text', config: null, assets: true };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format') opts.format = argv[++i];
+    else if (a === '--config') opts.config = argv[++i];
+    else if (a === '--no-assets') opts.assets = false;
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (!opts.paths.length) usage('no files or directories given');
+  if (!FORMATS.has(opts.format)) usage(`unknown format "${opts.format}"`);
+  return opts;
+}
+
+function loadConfig(file) {
+  const p = file ?? (fs.existsSync('lint-modules.json') ? 'lint-modules.json' : null);
+  if (!p) return { severity: {} };
+  let cfg;
+  try {
+    cfg = JSON.parse(fs.readFileSync(p, 'utf8'));
+  } catch (e) {
+    usage(`cannot read config ${p}: ${e.message}`);
+  }
+  const severity = cfg.severity ?? {};
+  for (const [code, sev] of Object.entries(severity)) {
+    if (!SEVERITIES.has(sev)) usage(`config ${p}: severity for "${code}" must be error, warning or off`);
+  }
+  return { severity };
+}
+
+// The canonical linter + course validator, bundled from TS on the fly.
+async function loadLinter() {
+  const r = await build({
+    stdin: {
+      contents: 'export { lintModuleText, lintModuleAssets } from "./module_diagnostics"; export { validateCourse } from "./module_course";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+function collectFiles(p, out) {
+  if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  if (fs.statSync(p).isFile()) {
+    out.push(p);
+    return out;
+  }
+  for (const ent of fs.readdirSync(p, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (ent.name.startsWith('.') || ent.name === 'node_modules') continue;
+    const child = path.join(p, ent.name);
+    if (ent.isDirectory()) collectFiles(child, out);
+    else if (/\.(module|course)$/.test(ent.name)) out.push(child);
+  }
+  return out;
+}
+
+// Every file under `dir`, as `/`-separated paths relative to it (null if no such dir).
+function listAssetFolder(dir) {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return null;
+  const out = [];
+  const walk = (d, prefix) => {
+    for (const ent of fs.readdirSync(d, { withFileTypes: true })) {
+      if (ent.name.startsWith('.')) continue;
+      if (ent.isDirectory()) walk(path.join(d, ent.name), `${prefix}${ent.name}/`);
+      else out.push(`${prefix}${ent.name}`);
+    }
+  };
+  walk(dir, '');
+  return out;
+}
+
+function lintModule(linter, file, opts) {
+  const text = fs.readFileSync(file, 'utf8');
+  const diags = linter.lintModuleText(text);
+  if (!opts.assets) return diags.map((d) => ({ ...d, file }));
+  const base = path.basename(file, '.module');
+  const assetFiles = listAssetFolder(path.join(path.dirname(file), base));
+  return [...diags, ...linter.lintModuleAssets(text, assetFiles, base)].map((d) => ({ ...d, file }));
+}
+
+// The .course file plus every .module beside it.
+function lintCourse(linter, file) {
+  const dir = path.dirname(file);
+  const modules = fs
+    .readdirSync(dir)
+    .filter((n) => n.endsWith('.module'))
+    .sort()
+    .map((n) => ({ file: path.join(dir, n), text: fs.readFileSync(path.join(dir, n), 'utf8') }));
+  return linter.validateCourse({ file, text: fs.readFileSync(file, 'utf8') }, modules);
+}
+
+function printCourseSummary(file, report) {
+  const c = report.course;
+  console.error(`\n${file}: ${c ? `${c.title} (${c.targetLang_G} → ${c.homeLang_G})` : '(invalid .course)'}, ${report.modules.length} module(s)`);
+  for (const m of report.modules) {
+    const counts = `${m.lessonCount} lesson(s), ${m.activityCount} activit${m.activityCount === 1 ? 'y' : 'ies'}`;
+    console.error(`  ${m.moduleKey.padEnd(24)} ${m.title || '(untitled)'} — ${counts}${m.image ? '' : ', no cover'}`);
+  }
+}
+
+function applyOverrides(diags, severity) {
+  const out = [];
+  for (const d of diags) {
+    const sev = (d.code && severity[d.code]) || d.severity;
+    if (sev !== 'off') out.push({ ...d, severity: sev });
+  }
+  return out;
+}
+
+function toSarif(results) {
+  const rules = [...new Set(results.map((r) => r.code))].sort();
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'lint-modules', rules: rules.map((id) => ({ id })) } },
+        results: results.map((r) => ({
+          ruleId: r.code,
+          level: r.severity,
+          message: { text: r.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: r.file.split(path.sep).join('/') },
+                region: { startLine: r.line },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
+
+const opts = parseArgs(process.argv.slice(2));
+const config = loadConfig(opts.config);
+const files = opts.paths.flatMap((p) => collectFiles(p, []));
+const linter = await loadLinter();
+
+const results = [];
+const courses = [];
+for (const file of files) {
+  let diags;
+  if (file.endsWith('.course')) {
+    const report = lintCourse(linter, file);
+    courses.push([file, report]);
+    diags = report.diagnostics;
+  } else {
+    diags = lintModule(linter, file, opts);
+  }
+  for (const d of applyOverrides(diags, config.severity).sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)) {
+    results.push({ file: d.file, line: d.line, severity: d.severity, code: d.code ?? 'lint', message: d.message });
+  }
+}
+
+const errors = results.filter((r) => r.severity === 'error').length;
+const warnings = results.length - errors;
+
+if (opts.format === 'json') {
+  console.log(JSON.stringify(results, null, 2));
+} else if (opts.format === 'sarif') {
+  console.log(JSON.stringify(toSarif(results), null, 2));
+} else {
+  for (const r of results) console.log(`${r.file}:${r.line}: ${r.severity} ${r.code} ${r.message}`);
+  for (const [file, report] of courses) printCourseSummary(file, report);
+  console.error(`\n${files.length} file(s): ${errors} error(s), ${warnings} warning(s).`);
+}
+
+process.exit(errors ? 1 : 0);
@@ -0,0 +1,359 @@
+#!/usr/bin/env node
+/**
+ * Language Server Protocol server for .module files (stdio).
+ *
+ * Built on the CANONICAL module-parser sources (bundled on the fly, like
+ * lint-modules.mjs): the linter, quick fixes and the editor features in
+ * module_language.ts. Any LSP-capable editor gets what lr-cursor-extension has.
+ *
+ * Provides:
+ *   - diagnostics (lintModuleText + the asset-folder pass for files on disk)
+ *   - document symbols, completion, hover, go-to-definition, find-references,
+ *     speaker rename, semantic tokens
+ *   - formatting (formatModuleText) and quick-fix code actions
+ *
+ * Usage (editor config):
+ *   command: node /path/to/reactor-module-tools/module-parser/module-lsp.mjs --stdio
+ *   filetypes / file pattern: *.module
+ *
+ * Documents are synced in full on every change (TextDocumentSyncKind.Full).
+ * LSP lines are 0-based; module-parser lines are 1-based — converted at the edge.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const r = await build({
+  stdin: {
+    contents: [
+      'export { lintModuleText, lintModuleAssets, getQuickFix, FIXABLE_CODES } from "./module_diagnostics";',
+      'export * from "./module_language";',
+    ].join('\n'),
+    resolveDir: here,
+    loader: 'ts',
+  },
+  bundle: true,
+  format: 'esm',
+  write: false,
+  platform: 'node',
+  logLevel: 'silent',
+});
+const lang = await import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+
+// stdout carries the protocol; anything else goes to stderr.
+console.log = console.error;
+console.warn = console.error;
+
+// ---------------------------------------------------------------------------
+// JSON-RPC over stdio (Content-Length framing)
+// ---------------------------------------------------------------------------
+
+function send(msg) {
+  const body = Buffer.from(JSON.stringify({ jsonrpc: '2.0', ...msg }), 'utf8');
+  process.stdout.write(`Content-Length: ${body.length}\r\n\r\n`);
+  process.stdout.write(body);
+}
+
+let pending = Buffer.alloc(0);
+process.stdin.on('data', (chunk) => {
+  pending = Buffer.concat([pending, chunk]);
+  for (;;) {
+    const headerEnd = pending.indexOf('\r\n\r\n');
+    if (headerEnd < 0) return;
+    const m = pending.slice(0, headerEnd).toString('ascii').match(/Content-Length:\s*(\d+)/i);
+    if (!m) {
+      pending = pending.slice(headerEnd + 4);
+      continue;
+    }
+    const len = Number(m[1]);
+    if (pending.length < headerEnd + 4 + len) return;
+    const body = pending.slice(headerEnd + 4, headerEnd + 4 + len).toString('utf8');
+    pending = pending.slice(headerEnd + 4 + len);
+    let msg;
+    try {
+      msg = JSON.parse(body);
+    } catch (e) {
+      send({ id: null, error: { code: -32700, message: `Parse error: ${e.message}` } });
+      continue;
+    }
+    dispatch(msg);
+  }
+});
+
+// A handler that throws fails its request (or, for a notification, is logged);
+// the server keeps running.
+function dispatch(msg) {
+  if (!msg || typeof msg !== 'object' || typeof msg.method !== 'string') {
+    // (Responses carry no method; the server sends no requests, so drop them.)
+    const response = msg && typeof msg === 'object' && ('result' in msg || 'error' in msg);
+    if (msg?.id !== undefined && !response) send({ id: msg.id, error: { code: -32600, message: 'Invalid request' } });
+    return;
+  }
+  const handler = (msg.id !== undefined ? requests : notifications)[msg.method];
+  if (msg.id === undefined) {
+    if (!handler) return;
+    try {
+      handler(msg.params ?? {});
+    } catch (e) {
+      console.error(`module-lsp: ${msg.method} failed:`, e);
+    }
+    return;
+  }
+  if (!handler) {
+    send({ id: msg.id, error: { code: -32601, message: `Unhandled method ${msg.method}` } });
+    return;
+  }
+  try {
+    send({ id: msg.id, result: handler(msg.params ?? {}) ?? null });
+  } catch (e) {
+    send({ id: msg.id, error: { code: -32603, message: e instanceof Error ? e.message : String(e) } });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Conversions (module-parser: 1-based lines ↔ LSP: 0-based lines)
+// ---------------------------------------------------------------------------
+
+const toLspRange = (rg) => ({
+  start: { line: rg.startLine - 1, character: rg.startCol },
+  end: { line: rg.endLine - 1, character: rg.endCol },
+});
+
+const SYMBOL_KIND = { module: 2, lesson: 3, activity: 12, item: 23, turn: 15 }; // Module, Namespace, Function, Struct, String
+// Keyword, Field, Constant, EnumMember, Variable, Value, File
+const COMPLETION_KIND = { marker: 14, field: 5, flag: 21, voice: 20, speaker: 6, option: 12, asset: 17 };
+
+const toLspSymbol = (s) => ({
+  name: s.name,
+  detail: s.detail,
+  kind: SYMBOL_KIND[s.kind],
+  range: toLspRange(s.range),
+  selectionRange: toLspRange(s.selectionRange),
+  children: s.children.map(toLspSymbol),
+});
+
+// LSP semantic tokens: [deltaLine, deltaStart, length, type, modifierBits] per token.
+function encodeSemanticTokens(tokens) {
+  const data = [];
+  let prevLine = 0;
+  let prevCol = 0;
+  for (const t of tokens) {
+    const line = t.line - 1;
+    const bits = t.modifiers.reduce((acc, m) => acc | (1 << lang.SEMANTIC_TOKEN_MODIFIERS.indexOf(m)), 0);
+    data.push(line - prevLine, line === prevLine ? t.startCol - prevCol : t.startCol, t.length, lang.SEMANTIC_TOKEN_TYPES.indexOf(t.type), bits);
+    prevLine = line;
+    prevCol = t.startCol;
+  }
+  return { data };
+}
+
+const toLspEdit = (e) => ({
+  range: toLspRange(e),
+  newText: e.newText,
+});
+
+// ---------------------------------------------------------------------------
+// Documents + diagnostics
+// ---------------------------------------------------------------------------
+
+/** uri → text */
+const documents = new Map();
+
+function filePath(uri) {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : null;
+}
+
+// Files in the module's `<moduleBaseName>/` asset folder, relative to it.
+function listAssetFolder(dir) {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return null;
+  const out = [];
+  const walk = (d, prefix) => {
+    for (const ent of fs.readdirSync(d, { withFileTypes: true })) {
+      if (ent.name.startsWith('.')) continue;
+      if (ent.isDirectory()) walk(path.join(d, ent.name), `${prefix}${ent.name}/`);
+      else out.push(`${prefix}${ent.name}`);
+    }
+  };
+  walk(dir, '');
+  return out;
+}
+
+function publishDiagnostics(uri) {
+  const text = documents.get(uri);
+  if (text == null) return;
+  const diags = [...lang.lintModuleText(text)];
+  const file = filePath(uri);
+  if (file) {
+    const base = path.basename(file, '.module');
+    diags.push(...lang.lintModuleAssets(text, listAssetFolder(path.join(path.dirname(file), base)), base));
+  }
+  const lines = text.split('\n');
+  send({
+    method: 'textDocument/publishDiagnostics',
+    params: {
+      uri,
+      diagnostics: diags.map((d) => {
+        const line = Math.min(Math.max(0, d.line - 1), lines.length - 1);
+        return {
+          range: { start: { line, character: 0 }, end: { line, character: lines[line].length } },
+          severity: d.severity === 'error' ? 1 : 2,
+          code: d.code,
+          source: 'lr-module',
+          message: d.message,
+        };
+      }),
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+let shutdownRequested = false;
+
+const requests = {
+  initialize: () => ({
+    capabilities: {
+      textDocumentSync: { openClose: true, change: 1, save: { includeText: false } },
+      documentSymbolProvider: true,
+      foldingRangeProvider: true,
+      completionProvider: { triggerCharacters: ['$', '{', '|', ',', ':', '='] },
+      hoverProvider: true,
+      definitionProvider: true,
+      referencesProvider: true,
+      renameProvider: { prepareProvider: true },
+      semanticTokensProvider: {
+        legend: { tokenTypes: lang.SEMANTIC_TOKEN_TYPES, tokenModifiers: lang.SEMANTIC_TOKEN_MODIFIERS },
+        full: true,
+      },
+      documentFormattingProvider: true,
+      codeActionProvider: { codeActionKinds: ['quickfix'] },
+    },
+    serverInfo: { name: 'module-lsp', version: '1.0.0' },
+  }),
+
+  shutdown: () => {
+    shutdownRequested = true;
+    return null;
+  },
+
+  'textDocument/documentSymbol': ({ textDocument }) =>
+    lang.getDocumentSymbols(documents.get(textDocument.uri) ?? '').map(toLspSymbol),
+
+  'textDocument/foldingRange': ({ textDocument }) =>
+    lang.getFoldingRanges(documents.get(textDocument.uri) ?? '').map((r) => ({
+      startLine: r.startLine - 1,
+      endLine: r.endLine - 1,
+    })),
+
+  'textDocument/completion': ({ textDocument, position }) => {
+    const file = filePath(textDocument.uri);
+    const assetFiles = file ? listAssetFolder(path.join(path.dirname(file), path.basename(file, '.module'))) : null;
+    const text = documents.get(textDocument.uri) ?? '';
+    return lang.getCompletions(text, position.line + 1, position.character, { assetFiles: assetFiles ?? [] }).map((c) => ({
+      label: c.label,
+      kind: COMPLETION_KIND[c.kind],
+      detail: c.detail,
+      textEdit: { range: toLspRange(c.range), newText: c.insertText },
+    }));
+  },
+
+  'textDocument/hover': ({ textDocument, position }) => {
+    const file = filePath(textDocument.uri);
+    const assetUri = (ref) => {
+      if (!file) return null;
+      const base = path.basename(file, '.module');
+      let rel = ref.replace(/^(\.\/)+/, '');
+      if (rel.startsWith(`${base}/`)) rel = rel.slice(base.length + 1);
+      const p = path.join(path.dirname(file), base, rel);
+      return fs.existsSync(p) ? pathToFileURL(p).href : null;
+    };
+    const h = lang.getHover(documents.get(textDocument.uri) ?? '', position.line + 1, position.character, { assetUri });
+    return h ? { contents: { kind: 'markdown', value: h.contents }, range: toLspRange(h.range) } : null;
+  },
+
+  'textDocument/definition': ({ textDocument, position }) => {
+    const rg = lang.getDefinition(documents.get(textDocument.uri) ?? '', position.line + 1, position.character);
+    return rg ? { uri: textDocument.uri, range: toLspRange(rg) } : null;
+  },
+
+  'textDocument/references': ({ textDocument, position, context }) =>
+    lang
+      .getReferences(documents.get(textDocument.uri) ?? '', position.line + 1, position.character, context?.includeDeclaration ?? true)
+      .map((rg) => ({ uri: textDocument.uri, range: toLspRange(rg) })),
+
+  'textDocument/prepareRename': ({ textDocument, position }) => {
+    const t = lang.prepareRename(documents.get(textDocument.uri) ?? '', position.line + 1, position.character);
+    return t ? { range: toLspRange(t.range), placeholder: t.id } : null;
+  },
+
+  'textDocument/rename': ({ textDocument, position, newName }) => {
+    const text = documents.get(textDocument.uri) ?? '';
+    const t = lang.prepareRename(text, position.line + 1, position.character);
+    if (!t) return null;
+    const problem = lang.checkSpeakerRename(text, t.id, newName);
+    if (problem) throw new Error(problem);
+    return { changes: { [textDocument.uri]: lang.renameSpeaker(text, t.id, newName).map(toLspEdit) } };
+  },
+
+  'textDocument/semanticTokens/full': ({ textDocument }) =>
+    encodeSemanticTokens(lang.getSemanticTokens(documents.get(textDocument.uri) ?? '')),
+
+  'textDocument/formatting': ({ textDocument }) =>
+    lang.getFormattingEdits(documents.get(textDocument.uri) ?? '').map(toLspEdit),
+
+  'textDocument/codeAction': ({ textDocument, context }) => {
+    const text = documents.get(textDocument.uri) ?? '';
+    const actions = [];
+    for (const diag of context.diagnostics ?? []) {
+      if (diag.source !== 'lr-module' || !lang.FIXABLE_CODES.has(diag.code)) continue;
+      const fix = lang.getQuickFix(text, {
+        severity: diag.severity === 1 ? 'error' : 'warning',
+        line: diag.range.start.line + 1,
+        message: diag.message,
+        code: diag.code,
+      });
+      if (!fix) continue;
+      actions.push({
+        title: fix.title,
+        kind: 'quickfix',
+        diagnostics: [diag],
+        isPreferred: true,
+        edit: { changes: { [textDocument.uri]: fix.edits.map(toLspEdit) } },
+      });
+    }
+    return actions;
+  },
+};
+
+const notifications = {
+  initialized: () => {},
+
+  'textDocument/didOpen': ({ textDocument }) => {
+    documents.set(textDocument.uri, textDocument.text);
+    publishDiagnostics(textDocument.uri);
+  },
+
+  'textDocument/didChange': ({ textDocument, contentChanges }) => {
+    // Full sync: the last change carries the whole text.
+    const last = contentChanges[contentChanges.length - 1];
+    if (last) documents.set(textDocument.uri, last.text);
+    publishDiagnostics(textDocument.uri);
+  },
+
+  // Asset folders change on disk; re-check on save.
+  'textDocument/didSave': ({ textDocument }) => publishDiagnostics(textDocument.uri),
+
+  'textDocument/didClose': ({ textDocument }) => {
+    documents.delete(textDocument.uri);
+    send({ method: 'textDocument/publishDiagnostics', params: { uri: textDocument.uri, diagnostics: [] } });
+  },
+
+  exit: () => process.exit(shutdownRequested ? 0 : 1),
+};
+
+process.stdin.on('end', () => process.exit(shutdownRequested ? 0 : 1));
@@ -0,0 +1,105 @@
+/**
+ * CANONICAL course-level validator: a .course file + the .module files beside it.
+ *
+ * Node-side only — bundled on the fly by lint-modules.mjs (not synced).
+ *
+ * lintModuleText checks one module in isolation; this checks that the modules
+ * of a course repo agree with the `$COURSE` header and with each other:
+ *   - TARGET_LANG_G / HOME_LANG_G differ from the course's;
+ *   - two modules share a moduleKey (DIOCO_DOC_ID, else the file name);
+ *   - two modules share a title;
+ *   - a module (or the course) has no cover image.
+ * Diagnostics carry the file they point into. The summary rows come from
+ * getModuleListItem, i.e. what the app's module list will show.
+ */
+
+import { Course, ModuleListItem, getModuleListItem } from "./module_types";
+import { parseCourseFile, parseModuleFileTolerant } from "./module_parser";
+import { parseModuleCst, ModuleCst } from "./module_cst";
+import { Diagnostic } from "./module_diagnostics";
+
+export type SourceFile = { file: string; text: string };
+
+export type CourseDiagnostic = Diagnostic & { file: string };
+
+export interface CourseReport {
+  course: Course | null;
+  modules: (ModuleListItem & { file: string; targetLang_G: string })[];
+  diagnostics: CourseDiagnostic[];
+}
+
+const baseName = (file: string) => file.replace(/^.*[\\/]/, "").replace(/\.module$/, "");
+
+// Line of the first of `names` among the header fields / $MODULE marker; 1 when absent.
+function headerLine(cst: ModuleCst, ...names: string[]): number {
+  for (const l of cst.header) {
+    if ((l.kind === "field" || l.kind === "marker") && l.name && names.includes(l.name)) return l.line;
+  }
+  return 1;
+}
+
+export function validateCourse(course: SourceFile, modules: SourceFile[]): CourseReport {
+  const diagnostics: CourseDiagnostic[] = [];
+  const push = (file: string, severity: Diagnostic["severity"], line: number, message: string, code: string) => {
+    diagnostics.push({ file, severity, line, message, code });
+  };
+
+  let parsedCourse: Course | null = null;
+  try {
+    parsedCourse = parseCourseFile(course.text);
+  } catch (e) {
+    push(course.file, "error", 1, e instanceof Error ? e.message : String(e), "course-invalid");
+  }
+  if (parsedCourse && !parsedCourse.image) {
+    push(course.file, "warning", 1, "Course has no cover IMAGE.", "course-missing-cover");
+  }
+  if (!modules.length) {
+    push(course.file, "warning", 1, "No .module files found beside the .course file.", "course-no-modules");
+  }
+
+  const report: CourseReport = { course: parsedCourse, modules: [], diagnostics };
+  const byKey = new Map<string, string>();
+  const byTitle = new Map<string, string>();
+
+  for (const src of modules) {
+    // Per-module syntax errors are lintModuleText's job; compare what parses.
+    const { module } = parseModuleFileTolerant(src.text);
+    const cst = parseModuleCst(src.text);
+    const moduleLine = headerLine(cst, "MODULE");
+
+    if (parsedCourse) {
+      if (module.targetLang_G && module.targetLang_G !== parsedCourse.targetLang_G) {
+        push(src.file, "error", headerLine(cst, "TARGET_LANG_G"), `TARGET_LANG_G is "${module.targetLang_G}" but the course is "${parsedCourse.targetLang_G}".`, "course-target-lang-mismatch");
+      }
+      if (module.homeLang_G && module.homeLang_G !== parsedCourse.homeLang_G) {
+        push(src.file, "error", headerLine(cst, "HOME_LANG_G", "USER_LANG_G"), `HOME_LANG_G is "${module.homeLang_G}" but the course is "${parsedCourse.homeLang_G}".`, "course-home-lang-mismatch");
+      }
+    }
+
+    // Without DIOCO_DOC_ID the moduleKey is derived from the file name.
+    const key = module.moduleKey || baseName(src.file);
+    const prevKey = byKey.get(key);
+    if (prevKey) {
+      push(src.file, "error", headerLine(cst, "DIOCO_DOC_ID"), `moduleKey "${key}" is also used by ${prevKey}.`, "course-dup-module-key");
+    } else {
+      byKey.set(key, src.file);
+    }
+
+    if (module.title) {
+      const prevTitle = byTitle.get(module.title.toLowerCase());
+      if (prevTitle) {
+        push(src.file, "warning", moduleLine, `Module title "${module.title}" is also used by ${prevTitle}.`, "course-dup-title");
+      } else {
+        byTitle.set(module.title.toLowerCase(), src.file);
+      }
+    }
+
+    if (!module.image) {
+      push(src.file, "warning", moduleLine, "Module has no cover image (`$MODULE <title> {cover.jpg}`).", "course-missing-cover");
+    }
+
+    report.modules.push({ ...getModuleListItem({ ...module, moduleKey: key }), file: src.file, targetLang_G: module.targetLang_G });
+  }
+
+  return report;
+}
@@ -0,0 +1,401 @@
+/**
+ * CANONICAL concrete syntax tree for .module text — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - reactor-module-tools/module-preview/src/module_cst.ts
+ *   - lr-cursor-extension/src/parser/module_cst.ts
+ *   - dioco-base/src/modules/module_cst.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * The ONE place that classifies source lines. Every line (markers, fields,
+ * flags, speaker lines, raw content, comments, blanks) becomes a CstLine with
+ * exact spans, and the lines are grouped into lessons / activities with their
+ * line ranges. parseModuleFile, lintModuleText, the preview's raw-block index
+ * and the editor outline all derive from this tree, so they agree on where
+ * things are.
+ *
+ * Lossless: `cst.lines.map((l) => l.text).join("\n") === text`.
+ *
+ * Scoping rules (what the parser has always done):
+ *   - `$LESSON` opens a lesson; an activity marker before any `$LESSON` opens an
+ *     implicit "Default Lesson".
+ *   - An activity runs from its marker to the line before the next `$LESSON` /
+ *     activity marker. Trailing blanks and comments belong to it; so does a
+ *     stray `$MODULE` line (it still sets the module title).
+ *   - Unknown and malformed markers do not change scope.
+ */
+
+import type { ActivityType } from "./module_types";
+
+/** A run of characters on one line. Columns are 0-based, `end` is exclusive. */
+export interface CstSpan {
+  line: number; // 1-based
+  start: number;
+  end: number;
+}
+
+/** An inline `{file}` token. `trailing` = part of the end-of-line run the parser attaches. */
+export interface CstAsset {
+  file: string;
+  /** Draft `@start-end` timing, if any (`{clip.mp3@1.2-3.4}`). */
+  timing: string | null;
+  kind: "image" | "audio" | "other";
+  trailing: boolean;
+  /** Covers the braces. */
+  span: CstSpan;
+}
+
+interface CstLineBase {
+  line: number; // 1-based
+  /** Raw source line, exactly as written (no newline). */
+  text: string;
+  /** Leading whitespace length. */
+  indent: number;
+  /** The whole line minus trailing whitespace. */
+  span: CstSpan;
+}
+
+export interface CstBlankLine extends CstLineBase {
+  kind: "blank";
+}
+
+export interface CstCommentLine extends CstLineBase {
+  kind: "comment";
+}
+
+/** `$NAME Title {image}`. `name` is null for a malformed marker (`$LESSON: x`). */
+export interface CstMarkerLine extends CstLineBase {
+  kind: "marker";
+  name: string | null;
+  nameSpan: CstSpan | null;
+  /** Title text with any trailing block image peeled off. */
+  title: string;
+  titleSpan: CstSpan | null;
+  /** Everything after the marker name, trimmed (title + image tokens). */
+  rawTitle: string;
+  image: string | null;
+  imageSpan: CstSpan | null;
+}
+
+/** `NAME: value` at column 0 (ALL-CAPS name). */
+export interface CstFieldLine extends CstLineBase {
+  kind: "field";
+  name: string;
+  nameSpan: CstSpan;
+  value: string;
+  valueSpan: CstSpan;
+  assets: CstAsset[];
+}
+
+/** A bare flag line: REPEAT / SHOW_PROMPT / MULTI / EXAMPLE. */
+export interface CstFlagLine extends CstLineBase {
+  kind: "flag";
+  name: string;
+  nameSpan: CstSpan;
+}
+
+/** Screenplay dialogue line `Jim: text` (only inside $DIALOGUE). */
+export interface CstSpeakerLine extends CstLineBase {
+  kind: "speaker";
+  speaker: string;
+  speakerSpan: CstSpan;
+  value: string;
+  valueSpan: CstSpan;
+  assets: CstAsset[];
+}
+
+/** Anything else: GRAMMAR markdown, stray text, indented field-looking lines. */
+export interface CstContentLine extends CstLineBase {
+  kind: "content";
+}
+
+export type CstLine =
+  | CstBlankLine
+  | CstCommentLine
+  | CstMarkerLine
+  | CstFieldLine
+  | CstFlagLine
+  | CstSpeakerLine
+  | CstContentLine;
+
+export interface CstActivity {
+  type: ActivityType;
+  /** Title as the parser stores it (defaults to "Dialogue", "Select", ...). */
+  title: string;
+  /** Same id the parser assigns (`generateId(`${type}-${title}`)`). */
+  id: string;
+  image: string | null;
+  marker: CstMarkerLine;
+  /** Lines after the marker, up to the end of the activity. */
+  lines: CstLine[];
+  startLine: number; // 1-based, the marker line
+  endLine: number; // 1-based, inclusive
+}
+
+export interface CstLesson {
+  title: string;
+  id: string;
+  /** null for the implicit "Default Lesson". */
+  marker: CstMarkerLine | null;
+  /** Lines inside the lesson but outside any activity. */
+  lines: CstLine[];
+  activities: CstActivity[];
+  startLine: number;
+  endLine: number;
+}
+
+export interface ModuleCst {
+  /** Every source line, in order (lossless). */
+  lines: CstLine[];
+  /** Lines before the first $LESSON / activity marker ($MODULE + header fields). */
+  header: CstLine[];
+  lessons: CstLesson[];
+}
+
+// =============================================================================
+// LINE CLASSIFICATION
+// =============================================================================
+
+export const CST_FLAGS = new Set(["REPEAT", "SHOW_PROMPT", "MULTI", "EXAMPLE"]);
+const ACTIVITY_MARKERS = new Set(["DIALOGUE", "GRAMMAR", "SELECT", "PRODUCE", "CHAT"]);
+
+const AUDIO_EXT_RE = /\.(?:mp3|wav|ogg|opus|m4a)$/i;
+const IMAGE_EXT_RE = /\.(?:jpe?g|png|gif|webp|svg)$/i;
+
+const FIELD_RE = /^([A-Z_]+):\s*(.*)?$/;
+const MARKER_RE = /^\$(\w+)(?:\s+(.*))?$/;
+// Screenplay speaker line: `Jim: Hello.` — the id must contain a lowercase
+// letter (ALL-CAPS identifiers are reserved for field names).
+const SPEAKER_LINE_RE = /^([A-Za-z][A-Za-z0-9_]*):\s*(.*)$/;
+
+function assetKind(file: string): CstAsset["kind"] {
+  if (AUDIO_EXT_RE.test(file)) return "audio";
+  if (IMAGE_EXT_RE.test(file)) return "image";
+  return "other";
+}
+
+// All `{file}` tokens in `value`, which starts at column `offset` of `line`.
+function scanAssets(value: string, line: number, offset: number): CstAsset[] {
+  const assets: CstAsset[] = [];
+  for (const m of value.matchAll(/\{\s*([^{}]+?)\s*\}/g)) {
+    const [file, timing] = m[1].split("@");
+    const start = offset + (m.index ?? 0);
+    assets.push({
+      file: file.trim(),
+      timing: timing != null ? timing.trim() : null,
+      kind: assetKind(file.trim()),
+      trailing: false,
+      span: { line, start, end: start + m[0].length },
+    });
+  }
+  // The trailing run: image/audio tokens separated only by whitespace up to EOL.
+  let end = offset + value.length;
+  for (let i = assets.length - 1; i >= 0; i--) {
+    const a = assets[i];
+    if (a.kind === "other" || value.slice(a.span.end - offset, end - offset).trim() !== "") break;
+    a.trailing = true;
+    end = a.span.start;
+  }
+  return assets;
+}
+
+function classifyLine(text: string, line: number, inDialogue: boolean): CstLine {
+  const trimmedEnd = text.trimEnd();
+  const t = trimmedEnd.trimStart();
+  const indent = trimmedEnd.length - t.length;
+  const base = { line, text, indent, span: { line, start: indent, end: trimmedEnd.length } };
+
+  if (t === "") return { ...base, kind: "blank" };
+  if (t.startsWith("#")) return { ...base, kind: "comment" };
+
+  if (trimmedEnd.startsWith("$")) {
+    const m = trimmedEnd.match(MARKER_RE);
+    if (!m) {
+      return { ...base, kind: "marker", name: null, nameSpan: null, title: "", titleSpan: null, rawTitle: "", image: null, imageSpan: null };
+    }
+    const name = m[1];
+    const rawTitle = (m[2] ?? "").trim();
+    const titleStart = rawTitle ? trimmedEnd.length - rawTitle.length : trimmedEnd.length;
+    // A trailing `{image}` on a marker's title line is the block-scoped image
+    // (module cover / activity-wide image). Titles never carry audio.
+    let title = rawTitle;
+    let image: string | null = null;
+    let imageSpan: CstSpan | null = null;
+    const im = rawTitle.match(/^(.*?)\s*\{\s*([^{}]+?)\s*\}$/);
+    if (im && IMAGE_EXT_RE.test(im[2].split("@")[0].trim())) {
+      title = im[1].trim();
+      image = im[2].split("@")[0].trim();
+      const open = trimmedEnd.lastIndexOf("{");
+      imageSpan = { line, start: open, end: trimmedEnd.length };
+    }
+    return {
+      ...base,
+      kind: "marker",
+      name,
+      nameSpan: { line, start: 1, end: 1 + name.length },
+      title,
+      titleSpan: title ? { line, start: titleStart, end: titleStart + title.length } : null,
+      rawTitle,
+      image,
+      imageSpan,
+    };
+  }
+
+  if (CST_FLAGS.has(t)) {
+    return { ...base, kind: "flag", name: t, nameSpan: { line, start: indent, end: indent + t.length } };
+  }
+
+  const fm = trimmedEnd.match(FIELD_RE);
+  if (fm) {
+    const value = fm[2] || "";
+    const valueStart = trimmedEnd.length - value.length;
+    return {
+      ...base,
+      kind: "field",
+      name: fm[1],
+      nameSpan: { line, start: 0, end: fm[1].length },
+      value,
+      valueSpan: { line, start: valueStart, end: trimmedEnd.length },
+      assets: scanAssets(value, line, valueStart),
+    };
+  }
+
+  if (inDialogue) {
+    const sm = trimmedEnd.match(SPEAKER_LINE_RE);
+    if (sm && /[a-z]/.test(sm[1])) {
+      const value = sm[2];
+      const valueStart = trimmedEnd.length - value.length;
+      return {
+        ...base,
+        kind: "speaker",
+        speaker: sm[1],
+        speakerSpan: { line, start: 0, end: sm[1].length },
+        value,
+        valueSpan: { line, start: valueStart, end: trimmedEnd.length },
+        assets: scanAssets(value, line, valueStart),
+      };
+    }
+  }
+
+  return { ...base, kind: "content" };
+}
+
+// =============================================================================
+// TREE
+// =============================================================================
+
+export function generateId(s: string): string {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+const defaultTitle = (type: string) => type.charAt(0) + type.slice(1).toLowerCase();
+
+export function parseModuleCst(text: string): ModuleCst {
+  const rawLines = String(text ?? "").split("\n");
+  const cst: ModuleCst = { lines: [], header: [], lessons: [] };
+  let lesson: CstLesson | null = null;
+  let activity: CstActivity | null = null;
+
+  const closeActivity = (endLine: number) => {
+    if (activity) activity.endLine = endLine;
+    activity = null;
+  };
+  const closeLesson = (endLine: number) => {
+    closeActivity(endLine);
+    if (lesson) lesson.endLine = endLine;
+    lesson = null;
+  };
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const lineNo = i + 1;
+    const node = classifyLine(rawLines[i], lineNo, (activity as CstActivity | null)?.type === "DIALOGUE");
+    cst.lines.push(node);
+
+    if (node.kind === "marker" && node.name === "LESSON") {
+      closeLesson(lineNo - 1);
+      const title = node.title || "Untitled";
+      lesson = {
+        title: node.title || "Untitled Lesson",
+        id: generateId(title),
+        marker: node,
+        lines: [],
+        activities: [],
+        startLine: lineNo,
+        endLine: lineNo,
+      };
+      cst.lessons.push(lesson);
+      continue;
+    }
+
+    if (node.kind === "marker" && node.name && ACTIVITY_MARKERS.has(node.name)) {
+      closeActivity(lineNo - 1);
+      if (!lesson) {
+        lesson = { title: "Default Lesson", id: "default-lesson", marker: null, lines: [], activities: [], startLine: lineNo, endLine: lineNo };
+        cst.lessons.push(lesson);
+      }
+      const type = node.name as ActivityType;
+      const title = node.title || defaultTitle(type);
+      activity = {
+        type,
+        title,
+        id: generateId(`${type}-${title}`),
+        image: node.image,
+        marker: node,
+        lines: [],
+        startLine: lineNo,
+        endLine: lineNo,
+      };
+      (lesson as CstLesson).activities.push(activity);
+      continue;
+    }
+
+    if (activity) (activity as CstActivity).lines.push(node);
+    else if (lesson) (lesson as CstLesson).lines.push(node);
+    else cst.header.push(node);
+  }
+  closeLesson(rawLines.length);
+
+  return cst;
+}
+
+/** The activity whose range contains `line` (1-based), if any. */
+export function findCstActivity(cst: ModuleCst, line: number): CstActivity | null {
+  for (const lesson of cst.lessons) {
+    if (line < lesson.startLine || line > lesson.endLine) continue;
+    for (const a of lesson.activities) {
+      if (line >= a.startLine && line <= a.endLine) return a;
+    }
+  }
+  return null;
+}
+
+/**
+ * The field lines of each SELECT / PRODUCE item, split the way parseSelect /
+ * parseProduce do: a PROMPT / TEMPLATE opens a new item once the open one is
+ * closed (its last ANSWER lists an option / it has a RESPONSE, even an empty
+ * one) or already has that kind of stimulus. Fields
+ * before the first stimulus belong to no item. Each item starts with its
+ * stimulus line.
+ */
+export function cstItemFields(activity: CstActivity): CstFieldLine[][] {
+  const closed = (fields: CstFieldLine[]): boolean => {
+    if (activity.type !== "SELECT") return fields.some((f) => f.name === "RESPONSE");
+    const answer = fields.filter((f) => f.name === "ANSWER").pop();
+    return !!answer && answer.value.split(",").some((s) => s.trim());
+  };
+  const items: CstFieldLine[][] = [];
+  let cur: CstFieldLine[] | null = null;
+  for (const l of activity.lines) {
+    if (l.kind !== "field") continue;
+    if (l.name === "PROMPT" || l.name === "TEMPLATE") {
+      const name = l.name;
+      if (cur && (closed(cur) || cur.some((f) => f.name === name))) cur = null;
+      if (!cur) items.push((cur = []));
+    }
+    cur?.push(l);
+  }
+  return items;
+}
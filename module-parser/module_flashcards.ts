@@ -0,0 +1,136 @@
+/**
+ * CANONICAL flashcard extraction: the parts of a module learners drill outside
+ * the app, as front / back cards for export-flashcards.mjs (Anki .apkg, CSV, TSV).
+ *
+ * Node-side only — bundled on the fly by export-flashcards.mjs (not synced).
+ *
+ * Two kinds of card, both from $DIALOGUE activities:
+ *   - line:  each line of a REPEAT dialogue (every dialogue with `allLines`).
+ *            Front: the line; back: its translation when enriched, and NOTES.
+ *   - vocab: each VOCAB item. Front: the word; back: its definition when
+ *            enriched, and the line it belongs to as the example.
+ * A card carries the line's {clip.mp3} and its image (the line's own, else the
+ * activity-wide one), and tags `<module>::<lesson>::<activity>` plus its kind.
+ *
+ * Card ids (GUIDs) are stable across exports, so re-importing a deck updates
+ * its cards, review history included, instead of duplicating them. Each hashes
+ * the moduleKey and:
+ *   - line with a clip:    the clip's file name;
+ *   - line without a clip: the dialogue's place (its lesson's position in the
+ *                          module, its own among the lesson's dialogues) and the
+ *                          line's normalized text (case, punctuation, spacing);
+ *   - vocab:               the dialogue's place and the word.
+ * Titles never count, so retitling keeps every card. What does make new cards
+ * (the old ones are left behind in the collection):
+ *   - renaming a clip, or changing the moduleKey (DIOCO_DOC_ID / file name);
+ *   - rewording a line without a clip;
+ *   - adding, removing or reordering lessons or dialogues, for the clip-less
+ *     lines and vocab of the dialogues after the change.
+ * A key repeated within the module (a clip used twice, the same line twice in
+ * a dialogue) is numbered by occurrence, so ids are unique within a module.
+ */
+
+import type { DialogueActivity, Module } from "./module_types";
+
+export type FlashcardKind = "line" | "vocab";
+
+export interface Flashcard {
+  /** Stable id (16 hex digits): Anki's note GUID. */
+  guid: string;
+  kind: FlashcardKind;
+  front: string;
+  back: string | null;
+  /** vocab: the line the word belongs to. */
+  example: string | null;
+  notes: string | null;
+  audio: string | null;
+  image: string | null;
+  tags: string[];
+  /** `Module / Lesson / Activity`, shown under the answer. */
+  source: string;
+}
+
+export interface FlashcardOptions {
+  /** Cards for the lines of every dialogue, not only REPEAT ones. */
+  allLines?: boolean;
+}
+
+/** 64-bit FNV-1a of `key` as 16 hex digits. */
+export function stableId(key: string): string {
+  let h = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(key)) {
+    h ^= BigInt(byte);
+    h = (h * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return h.toString(16).padStart(16, "0");
+}
+
+/** Line text as it counts for a card id: letters and digits, lowercased. */
+function idText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/** A title as one Anki tag segment: no spaces, no `::`, no quotes. */
+export function flashcardTag(title: string): string {
+  const tag = title.trim().replace(/\s+/g, "_").replace(/[^\p{L}\p{N}_\-.]/gu, "");
+  return tag.replace(/_{2,}/g, "_").replace(/^_|_$/g, "") || "untitled";
+}
+
+/**
+ * The module's cards, in module order. `moduleKey` stands in for a module
+ * without DIOCO_DOC_ID (the CLI passes the file name).
+ */
+export function moduleFlashcards(module: Module, moduleKey = module.moduleKey, options: FlashcardOptions = {}): Flashcard[] {
+  const cards: Flashcard[] = [];
+  const seen = new Map<string, number>();
+  const guid = (key: string) => {
+    const n = (seen.get(key) ?? 0) + 1;
+    seen.set(key, n);
+    return stableId(n === 1 ? key : `${key}|${n}`);
+  };
+
+  module.lessons.forEach((lesson, lessonIndex) => {
+    const dialogues = lesson.activities.filter((a): a is DialogueActivity => a.type === "DIALOGUE");
+    dialogues.forEach((act, dialogueIndex) => {
+      const tags = [[module.title, lesson.title, act.title].map(flashcardTag).join("::")];
+      const source = `${module.title} / ${lesson.title} / ${act.title}`;
+      const place = `${moduleKey}|${lessonIndex}|${dialogueIndex}`;
+      const words = new Set<string>();
+
+      for (const line of act.lines) {
+        const media = { audio: line.audio, image: line.image ?? act.image };
+        if (act.repeat || options.allLines) {
+          cards.push({
+            guid: guid(line.audio ? `${moduleKey}|clip|${line.audio}` : `${place}|line|${idText(line.text)}`),
+            kind: "line",
+            front: line.text,
+            back: line.translation,
+            example: null,
+            notes: line.notes,
+            ...media,
+            tags: [...tags, "line"],
+            source,
+          });
+        }
+        for (const v of line.vocab ?? []) {
+          // A word repeated within an activity gets one card, at its first line.
+          const word = v.word.trim().toLowerCase();
+          if (words.has(word)) continue;
+          words.add(word);
+          cards.push({
+            guid: guid(`${place}|vocab|${word}`),
+            kind: "vocab",
+            front: v.word,
+            back: v.definition,
+            example: line.text,
+            notes: null,
+            ...media,
+            tags: [...tags, "vocab"],
+            source,
+          });
+        }
+      }
+    });
+  });
+  return cards;
+}
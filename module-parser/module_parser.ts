@@ -42,6 +42,7 @@ import {
   VocabItem,
   langCode_G_t,
 } from "./module_types";
+import { parseModuleCst, CstLine, CstMarkerLine, CstActivity } from "./module_cst";
 
 const log = {
   e: (...args: unknown[]) => console.error("[MODULE_PARSER]", ...args),
@@ -117,10 +118,42 @@ interface ParserState {
   buffer: string[];
 }
 
-const FLAGS = new Set(["REPEAT", "SHOW_PROMPT", "MULTI", "EXAMPLE"]);
+/** A problem parseModuleFileTolerant recovered from. `line` is 1-based. */
+export interface ModuleParseError {
+  line: number;
+  message: string;
+}
+
+export interface TolerantParseResult {
+  module: Module;
+  errors: ModuleParseError[];
+}
 
 export function parseModuleFile(content: string): Module {
-  const lines = content.split("\n");
+  return buildModule(content, null);
+}
+
+/**
+ * Recoverable variant of parseModuleFile for half-finished files (live previews
+ * while an author is typing). Instead of throwing on the first error it:
+ *   - drops an activity whose lines fail to parse, and keeps going;
+ *   - skips a broken header / lesson line;
+ *   - reports a missing TITLE / TARGET_LANG_G / HOME_LANG_G but still returns
+ *     the module (with empty values).
+ * Every lesson and valid activity is kept. A file parseModuleFile accepts
+ * yields the same Module here with `errors` empty.
+ */
+export function parseModuleFileTolerant(content: string): TolerantParseResult {
+  const errors: ModuleParseError[] = [];
+  const module = buildModule(content, errors);
+  return { module, errors };
+}
+
+// `errors` null = strict (throw on the first error), otherwise collect and recover.
+function buildModule(content: string, errors: ModuleParseError[] | null): Module {
+  // Lines are classified and grouped into lessons/activities ONCE, by the CST
+  // (shared with the linter and the editor tooling); this walks that tree.
+  const cst = parseModuleCst(content);
   const state: ParserState = {
     module: { lessons: [], formatVersion: 2 },
     voiceConfig: { default: null, prompt: null, response: null, introVoice: null, speakers: {} },
@@ -129,32 +162,63 @@ export function parseModuleFile(content: string): Module {
     buffer: [],
   };
 
-  let lineNum = 0;
-  for (const line of lines) {
-    lineNum++;
-    try {
-      processLine(line, state);
-    } catch (e) {
-      log.e(`Parse error at line ${lineNum}:`, e);
-      throw new Error(`Parse error at line ${lineNum}: ${e}`);
+  const fail = (line: number, e: unknown): void => {
+    const message = e instanceof Error ? e.message : String(e);
+    if (!errors) throw e;
+    errors.push({ line, message });
+  };
+
+  // Returns false on the first line that fails (tolerant mode only).
+  const processLines = (nodes: CstLine[], stopOnError: boolean): boolean => {
+    for (const node of nodes) {
+      try {
+        processLine(node, state);
+      } catch (e) {
+        if (!errors) {
+          log.e(`Parse error at line ${node.line}:`, e);
+          throw new Error(`Parse error at line ${node.line}: ${e}`);
+        }
+        fail(node.line, e);
+        if (stopOnError) return false;
+      }
     }
-  }
+    return true;
+  };
 
-  finalizeActivity(state);
-  finalizeLesson(state);
+  processLines(cst.header, false);
+  for (const lesson of cst.lessons) {
+    state.currentLesson = { id: lesson.id, title: lesson.title, activities: [] };
+    processLines(lesson.lines, false);
+    for (const activity of lesson.activities) {
+      startActivity(state, activity);
+      // A broken activity is skipped as a whole; its siblings are unaffected.
+      if (!processLines(activity.lines, true)) {
+        discardActivity(state);
+        continue;
+      }
+      try {
+        finalizeActivity(state);
+      } catch (e) {
+        fail(activity.startLine, e);
+        discardActivity(state);
+      }
+    }
+    finalizeLesson(state);
+  }
 
   const mod = state.module;
-  if (!mod.title) throw new Error("Missing TITLE in .module file");
-  if (!mod.targetLang_G) throw new Error("Missing TARGET_LANG_G in .module file");
-  if (!mod.homeLang_G) throw new Error("Missing HOME_LANG_G in .module file");
+  const headerLine = cst.header.find((l) => l.kind === "marker" && l.name === "MODULE")?.line ?? 1;
+  if (!mod.title) fail(headerLine, new Error("Missing TITLE in .module file"));
+  if (!mod.targetLang_G) fail(headerLine, new Error("Missing TARGET_LANG_G in .module file"));
+  if (!mod.homeLang_G) fail(headerLine, new Error("Missing HOME_LANG_G in .module file"));
 
   return {
     moduleKey: (mod as any).diocoDocId || (mod as any).moduleKey || "",
-    title: mod.title,
+    title: mod.title || "",
     description: mod.description || null,
     image: mod.image || null,
-    targetLang_G: mod.targetLang_G,
-    homeLang_G: mod.homeLang_G,
+    targetLang_G: mod.targetLang_G || ("" as langCode_G_t),
+    homeLang_G: mod.homeLang_G || ("" as langCode_G_t),
     voiceConfig: state.voiceConfig,
     ttsPrompt: (mod as any).ttsPrompt ?? null,
     lessons: mod.lessons || [],
@@ -162,30 +226,26 @@ export function parseModuleFile(content: string): Module {
   };
 }
 
-function processLine(line: string, state: ParserState): void {
-  const trimmed = line.trimEnd();
-  const t = trimmed.trimStart();
-
-  if (t.startsWith("#")) return; // comment
-  if (t === "") {
-    // Preserve blank lines only inside GRAMMAR content
-    if (state.currentActivity?.type === "GRAMMAR") state.buffer.push("");
-    return;
-  }
-  if (trimmed.startsWith("$")) {
-    handleSectionMarker(trimmed, state);
-    return;
-  }
-  if (FLAGS.has(t)) {
-    handleFlag(t, state);
-    return;
-  }
-  const fieldMatch = trimmed.match(/^([A-Z_]+):\s*(.*)?$/);
-  if (fieldMatch) {
-    handleField(fieldMatch[1], fieldMatch[2] || "", state);
-    return;
+function processLine(node: CstLine, state: ParserState): void {
+  switch (node.kind) {
+    case "comment":
+      return;
+    case "blank":
+      // Preserve blank lines only inside GRAMMAR content
+      if (state.currentActivity?.type === "GRAMMAR") state.buffer.push("");
+      return;
+    case "marker":
+      handleSectionMarker(node, state);
+      return;
+    case "flag":
+      handleFlag(node.name, state);
+      return;
+    case "field":
+      handleField(node.name, node.value, state);
+      return;
+    default:
+      if (state.currentActivity) state.buffer.push(node.text);
   }
-  if (state.currentActivity) state.buffer.push(line);
 }
 
 function handleFlag(flag: string, state: ParserState): void {
@@ -198,50 +258,17 @@ function handleFlag(flag: string, state: ParserState): void {
   else if (flag === "EXAMPLE") state.buffer.push("EXAMPLE");
 }
 
-function handleSectionMarker(line: string, state: ParserState): void {
-  const match = line.match(/^\$(\w+)(?:\s+(.*))?$/);
-  if (!match) return;
-  const [, marker, rawTitle] = match;
-  // A trailing `{image}` on a marker's title line is the block-scoped image
-  // (the module cover, or an activity-wide reference image). Titles never carry
-  // audio, so only the image token is peeled off; the rest is the title text.
-  const { text: title, image } = extractInlineAssets(rawTitle ?? "", { audio: false });
-
-  switch (marker) {
-    case "MODULE":
-      if (title) state.module.title = title;
-      if (image) state.module.image = image;
-      break;
-    case "LESSON":
-      finalizeActivity(state);
-      finalizeLesson(state);
-      state.currentLesson = {
-        id: generateId(title || "Untitled"),
-        title: title || "Untitled Lesson",
-        activities: [],
-      };
-      break;
-    case "DIALOGUE":
-      startActivity(state, "DIALOGUE", title || "Dialogue");
-      if (image) (state.currentActivity as Partial<DialogueActivity>).image = image;
-      break;
-    case "GRAMMAR":
-      startActivity(state, "GRAMMAR", title || "Grammar");
-      break;
-    case "SELECT":
-      startActivity(state, "SELECT", title || "Select");
-      if (image) (state.currentActivity as Partial<SelectActivity>).image = image;
-      break;
-    case "PRODUCE":
-      startActivity(state, "PRODUCE", title || "Produce");
-      if (image) (state.currentActivity as Partial<ProduceActivity>).image = image;
-      break;
-    case "CHAT":
-      startActivity(state, "CHAT", title || "Chat");
-      break;
-    default:
-      log.w(`Unknown section marker: $${marker}`);
+// $LESSON and activity markers open the tree's scopes (see parseModuleCst); the
+// markers left here are $MODULE and unknown/malformed ones.
+function handleSectionMarker(node: CstMarkerLine, state: ParserState): void {
+  if (!node.name) return;
+  // A trailing `{image}` on the $MODULE title line is the module cover.
+  if (node.name === "MODULE") {
+    if (node.title) state.module.title = node.title;
+    if (node.image) state.module.image = node.image;
+    return;
   }
+  log.w(`Unknown section marker: $${node.name}`);
 }
 
 function parseVoiceSpec(value: string): { voice: string; prompt: string | null } | null {
@@ -349,24 +376,23 @@ function normalizeCheck(v: string): ProduceCheck {
   return x === "exact" || x === "llm" ? (x as ProduceCheck) : "reveal";
 }
 
-function startActivity(state: ParserState, type: Activity["type"], title: string): void {
+function startActivity(state: ParserState, activity: CstActivity): void {
   finalizeActivity(state);
-  if (!state.currentLesson) {
-    state.currentLesson = { id: "default-lesson", title: "Default Lesson", activities: [] };
-  }
-  const base = { type, id: generateId(`${type}-${title}`), title, intro: null, introTtsDataURL: null };
+  // The activity-wide image rides the marker title line (GRAMMAR/CHAT ignore it).
+  const { type, title, image } = activity;
+  const base = { type, id: activity.id, title, intro: null, introTtsDataURL: null };
   switch (type) {
     case "DIALOGUE":
-      state.currentActivity = { ...base, instruction: null, ttsPrompt: null, repeat: false, image: null, lines: [] } as Partial<DialogueActivity>;
+      state.currentActivity = { ...base, instruction: null, ttsPrompt: null, repeat: false, image, lines: [] } as Partial<DialogueActivity>;
       break;
     case "GRAMMAR":
       state.currentActivity = { ...base, content: "", phrases: [] } as Partial<GrammarActivity>;
       break;
     case "SELECT":
-      state.currentActivity = { ...base, instruction: null, showPrompt: false, multi: false, repeat: false, image: null, options: [], items: [] } as Partial<SelectActivity>;
+      state.currentActivity = { ...base, instruction: null, showPrompt: false, multi: false, repeat: false, image, options: [], items: [] } as Partial<SelectActivity>;
       break;
     case "PRODUCE":
-      state.currentActivity = { ...base, instruction: null, ttsPrompt: null, input: "speak", check: "reveal", showPrompt: false, repeat: false, image: null, items: [] } as Partial<ProduceActivity>;
+      state.currentActivity = { ...base, instruction: null, ttsPrompt: null, input: "speak", check: "reveal", showPrompt: false, repeat: false, image, items: [] } as Partial<ProduceActivity>;
       break;
     case "CHAT":
       state.currentActivity = { ...base, scenario: "", initialPrompt: "" } as Partial<ChatActivity>;
@@ -414,6 +440,11 @@ function finalizeActivity(state: ParserState): void {
   state.buffer = [];
 }
 
+function discardActivity(state: ParserState): void {
+  state.currentActivity = null;
+  state.buffer = [];
+}
+
 function finalizeLesson(state: ParserState): void {
   if (!state.currentLesson) return;
   state.module.lessons = state.module.lessons || [];
@@ -662,13 +693,6 @@ function parseProduce(buffer: string[]): { image: string | null; items: ProduceI
 // HELPERS
 // =============================================================================
 
-function generateId(s: string): string {
-  return s
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
-}
-
 // Inline assets: trailing `{file}` tokens on a content line, routed by file
 // extension — `{page.jpg}` = image, `{clip.mp3}` = audio (drafts carry
 // `{clip.mp3@start-end}` timing). Tokens are peeled off the END of the line;
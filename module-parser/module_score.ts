@@ -0,0 +1,339 @@
+/**
+ * CANONICAL gold-reference scorer: how close a converted module gets to a
+ * hand-authored gold one (e.g. module-convert/format-comparison/lesson-1A.gold.module).
+ *
+ * Node-side only — bundled on the fly by score-modules.mjs (not synced).
+ *
+ * Ids and titles rarely agree between a candidate and its gold, and a wrong
+ * activity type is one of the things to measure, so alignment is by content:
+ * activities (across lessons, in order), then within each pair the "units"
+ * (dialogue lines and SELECT / PRODUCE items alike) are paired in order where
+ * their words overlap enough (alignBySimilarity). On those pairs it measures:
+ *   - activity-type confusion (gold type → candidate type; "—" for missing / extra);
+ *   - unit recall and precision;
+ *   - answer agreement: SELECT answers by option text, PRODUCE RESPONSE,
+ *     compared after normalizeAnswer (module_answers.ts);
+ *   - clip and image attachment: the same files on the same unit / activity;
+ *   - flag agreement: REPEAT, SHOW_PROMPT, MULTI per activity, EXAMPLE per unit;
+ * and folds them into one overall score with SCORE_WEIGHTS.
+ */
+
+import { normalizeAnswer } from "./module_answers";
+import { overlap, textWords } from "./module_diff";
+import type { Activity, DialogueActivity, Module, ProduceActivity, SelectActivity, SelectOption } from "./module_types";
+
+/** `agree` of `total` comparisons; `rate` is null when there was nothing to compare. */
+export interface Ratio {
+  agree: number;
+  total: number;
+  rate: number | null;
+}
+
+export type ScoredFlag = "REPEAT" | "SHOW_PROMPT" | "MULTI" | "EXAMPLE";
+
+/** One disagreement, for the detailed report. */
+export interface ScoreNote {
+  metric: "type" | "missing" | "extra" | "answer" | "clips" | "images" | "flag";
+  /** Gold-side location: `Figure 2: Identify the Sport / item 3`. */
+  where: string;
+  gold: string;
+  candidate: string;
+}
+
+export interface ModuleScore {
+  activities: {
+    gold: number;
+    candidate: number;
+    matched: number;
+    /** gold type → candidate type → count; "—" stands for no counterpart. */
+    confusion: Record<string, Record<string, number>>;
+    /** Gold activities matched to one of the same type. */
+    type: Ratio;
+  };
+  units: {
+    gold: number;
+    candidate: number;
+    matched: number;
+    recall: number | null;
+    precision: number | null;
+    f1: number | null;
+  };
+  answers: Ratio;
+  clips: Ratio;
+  images: Ratio;
+  flags: Record<ScoredFlag, Ratio>;
+  /** Weighted mean of the metrics that had something to compare (SCORE_WEIGHTS), 0 … 1. */
+  overall: number;
+  notes: ScoreNote[];
+}
+
+/** Weight of each metric in the overall score. */
+export const SCORE_WEIGHTS = {
+  type: 0.2,
+  units: 0.3,
+  answers: 0.2,
+  clips: 0.1,
+  images: 0.05,
+  flags: 0.15,
+} as const;
+
+/** Least word overlap (0 … 1) for two activities / units to count as the same one. */
+export const MATCH_MIN = 0.3;
+
+// =============================================================================
+// UNITS
+// =============================================================================
+
+// A dialogue line or a SELECT / PRODUCE item, reduced to what is scored.
+interface Unit {
+  label: string;
+  text: string;
+  answer: string | null;
+  clips: string[];
+  images: string[];
+  example: boolean;
+}
+
+const optionLabel = (o: SelectOption | undefined) => (o ? (o.text ?? o.image ?? o.id) : "");
+
+function units(a: Activity): Unit[] {
+  if (a.type === "DIALOGUE") {
+    return (a as DialogueActivity).lines.map((l, i) => ({
+      label: `line ${i + 1}`,
+      text: `${l.speaker ?? ""} ${l.text}`,
+      answer: null,
+      clips: present(l.audio),
+      images: present(l.image),
+      example: false,
+    }));
+  }
+  if (a.type === "SELECT") {
+    const act = a as SelectActivity;
+    return act.items.map((item, i) => {
+      const options = item.options ?? act.options;
+      const answer = item.answer.map((id) => optionLabel(options.find((o) => o.id === id))).sort().join(" / ");
+      return {
+        label: `item ${i + 1}`,
+        text: [item.prompt, item.template, answer].filter(Boolean).join(" "),
+        answer: answer || null,
+        clips: present(item.audio, ...(item.options ?? []).map((o) => o.audio)),
+        images: present(item.promptImage, ...(item.options ?? []).map((o) => o.image)),
+        example: item.isExample,
+      };
+    });
+  }
+  if (a.type === "PRODUCE") {
+    return (a as ProduceActivity).items.map((item, i) => ({
+      label: `item ${i + 1}`,
+      text: [item.prompt, item.template, item.response].filter(Boolean).join(" "),
+      answer: item.response,
+      clips: present(item.audio, item.responseAudio),
+      images: present(item.promptImage),
+      example: item.isExample,
+    }));
+  }
+  return [];
+}
+
+const present = (...xs: (string | null)[]) => xs.filter((x): x is string => !!x).sort();
+
+// Activity-level attachments: the shared image and the shared SELECT option pool.
+function activityClips(a: Activity): string[] {
+  return a.type === "SELECT" ? present(...(a as SelectActivity).options.map((o) => o.audio)) : [];
+}
+function activityImages(a: Activity): string[] {
+  const image = "image" in a ? (a.image as string | null) : null;
+  return present(image, ...(a.type === "SELECT" ? (a as SelectActivity).options.map((o) => o.image) : []));
+}
+
+function activityText(a: Activity): string {
+  const body = a.type === "GRAMMAR" ? a.content : a.type === "CHAT" ? a.scenario : units(a).map((u) => u.text).join(" ");
+  return `${a.title} ${body}`;
+}
+
+const FLAG_FIELDS: Record<Exclude<ScoredFlag, "EXAMPLE">, [field: string, types: Activity["type"][]]> = {
+  REPEAT: ["repeat", ["DIALOGUE", "SELECT", "PRODUCE"]],
+  SHOW_PROMPT: ["showPrompt", ["SELECT", "PRODUCE"]],
+  MULTI: ["multi", ["SELECT"]],
+};
+
+// =============================================================================
+// ALIGNMENT
+// =============================================================================
+
+/** Word overlap (Jaccard) of two texts, 0 … 1 — the measure diffModules pairs by. */
+export function textSimilarity(x: string, y: string): number {
+  return overlap(textWords(x), textWords(y));
+}
+
+/**
+ * Order-preserving pairs of `as` and `bs` with the largest total similarity,
+ * counting only pairs at or above `min` — a sequence alignment in which a
+ * node may also stay unpaired. Returns [indexInA, indexInB] pairs.
+ */
+export function alignBySimilarity<T>(as: T[], bs: T[], similarity: (a: T, b: T) => number, min = MATCH_MIN): [number, number][] {
+  const sim = as.map((a) => bs.map((b) => similarity(a, b)));
+  const best = Array.from({ length: as.length + 1 }, () => new Array<number>(bs.length + 1).fill(0));
+  for (let i = as.length - 1; i >= 0; i--) {
+    for (let j = bs.length - 1; j >= 0; j--) {
+      const pair = sim[i][j] >= min ? sim[i][j] + best[i + 1][j + 1] : -1;
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], pair);
+    }
+  }
+  const out: [number, number][] = [];
+  for (let i = 0, j = 0; i < as.length && j < bs.length; ) {
+    if (sim[i][j] >= min && best[i][j] === sim[i][j] + best[i + 1][j + 1]) out.push([i++, j++]);
+    else if (best[i][j] === best[i + 1][j]) i++;
+    else j++;
+  }
+  return out;
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+const ratio = (agree: number, total: number): Ratio => ({ agree, total, rate: total ? agree / total : null });
+
+/** Score `candidate` against `gold`; answers are normalized for gold's TARGET_LANG_G. */
+export function scoreModule(gold: Module, candidate: Module): ModuleScore {
+  const lang = gold.targetLang_G;
+  const notes: ScoreNote[] = [];
+  const confusion: Record<string, Record<string, number>> = {};
+  const confuse = (g: string, c: string) => {
+    confusion[g] ??= {};
+    confusion[g][c] = (confusion[g][c] ?? 0) + 1;
+  };
+  const tally: Record<"type" | "answers" | "clips" | "images", [number, number]> = {
+    type: [0, 0],
+    answers: [0, 0],
+    clips: [0, 0],
+    images: [0, 0],
+  };
+  const flagTally: Record<ScoredFlag, [number, number]> = { REPEAT: [0, 0], SHOW_PROMPT: [0, 0], MULTI: [0, 0], EXAMPLE: [0, 0] };
+  const unitCount = { gold: 0, candidate: 0, matched: 0 };
+  const activityCount = { gold: 0, candidate: 0, matched: 0 };
+
+  const compareSets = (kind: "clips" | "images", where: string, g: string[], c: string[]) => {
+    if (!g.length && !c.length) return;
+    const same = g.join("\n") === c.join("\n");
+    tally[kind][0] += same ? 1 : 0;
+    tally[kind][1]++;
+    if (!same) notes.push({ metric: kind, where, gold: g.join(", ") || "—", candidate: c.join(", ") || "—" });
+  };
+  const compareFlag = (flag: ScoredFlag, where: string, g: boolean, c: boolean) => {
+    flagTally[flag][0] += g === c ? 1 : 0;
+    flagTally[flag][1]++;
+    if (g !== c) notes.push({ metric: "flag", where, gold: `${flag} ${g ? "on" : "off"}`, candidate: `${flag} ${c ? "on" : "off"}` });
+  };
+
+  const goldActs = gold.lessons.flatMap((l) => l.activities);
+  const candActs = candidate.lessons.flatMap((l) => l.activities);
+  activityCount.gold = goldActs.length;
+  activityCount.candidate = candActs.length;
+  const textsG = goldActs.map(activityText);
+  const textsC = candActs.map(activityText);
+  const pairs = alignBySimilarity(
+    goldActs.map((_, i) => i),
+    candActs.map((_, i) => i),
+    (i, j) => textSimilarity(textsG[i], textsC[j]),
+  );
+  const pairedG = new Set(pairs.map(([i]) => i));
+  const pairedC = new Set(pairs.map(([, j]) => j));
+
+  goldActs.forEach((g, i) => {
+    if (pairedG.has(i)) return;
+    confuse(g.type, "—");
+    tally.type[1]++;
+    unitCount.gold += units(g).length;
+    notes.push({ metric: "missing", where: g.title, gold: g.type, candidate: "—" });
+  });
+  candActs.forEach((c, j) => {
+    if (pairedC.has(j)) return;
+    confuse("—", c.type);
+    unitCount.candidate += units(c).length;
+    notes.push({ metric: "extra", where: c.title, gold: "—", candidate: c.type });
+  });
+
+  for (const [i, j] of pairs) {
+    const g = goldActs[i];
+    const c = candActs[j];
+    activityCount.matched++;
+    confuse(g.type, c.type);
+    tally.type[0] += g.type === c.type ? 1 : 0;
+    tally.type[1]++;
+    if (g.type !== c.type) notes.push({ metric: "type", where: g.title, gold: g.type, candidate: `${c.type} (${c.title})` });
+
+    for (const [flag, [field, types]] of Object.entries(FLAG_FIELDS) as [Exclude<ScoredFlag, "EXAMPLE">, [string, Activity["type"][]]][]) {
+      if (!types.includes(g.type) && !types.includes(c.type)) continue;
+      const value = (a: Activity) => !!(a as unknown as Record<string, unknown>)[field];
+      compareFlag(flag, g.title, value(g), value(c));
+    }
+    compareSets("clips", g.title, activityClips(g), activityClips(c));
+    compareSets("images", g.title, activityImages(g), activityImages(c));
+
+    const ug = units(g);
+    const uc = units(c);
+    unitCount.gold += ug.length;
+    unitCount.candidate += uc.length;
+    const unitPairs = alignBySimilarity(ug, uc, (x, y) => textSimilarity(x.text, y.text));
+    unitCount.matched += unitPairs.length;
+    const matchedG = new Set(unitPairs.map(([x]) => x));
+    for (const [x, u] of ug.entries()) {
+      if (!matchedG.has(x)) notes.push({ metric: "missing", where: `${g.title} / ${u.label}`, gold: u.text, candidate: "—" });
+    }
+    for (const [x, y] of unitPairs) {
+      const gu = ug[x];
+      const cu = uc[y];
+      const where = `${g.title} / ${gu.label}`;
+      if (gu.answer != null) {
+        const same = cu.answer != null && normalizeAnswer(gu.answer, lang) === normalizeAnswer(cu.answer, lang);
+        tally.answers[0] += same ? 1 : 0;
+        tally.answers[1]++;
+        if (!same) notes.push({ metric: "answer", where, gold: gu.answer, candidate: cu.answer ?? "—" });
+      }
+      compareSets("clips", where, gu.clips, cu.clips);
+      compareSets("images", where, gu.images, cu.images);
+      compareFlag("EXAMPLE", where, gu.example, cu.example);
+    }
+  }
+
+  const recall = unitCount.gold ? unitCount.matched / unitCount.gold : null;
+  const precision = unitCount.candidate ? unitCount.matched / unitCount.candidate : null;
+  let f1: number | null = null;
+  if (recall != null && precision != null) f1 = recall + precision ? (2 * recall * precision) / (recall + precision) : 0;
+  const flags = Object.fromEntries(Object.entries(flagTally).map(([k, [a, t]]) => [k, ratio(a, t)])) as Record<ScoredFlag, Ratio>;
+  const flagAll = ratio(
+    Object.values(flagTally).reduce((n, [a]) => n + a, 0),
+    Object.values(flagTally).reduce((n, [, t]) => n + t, 0),
+  );
+
+  const [type, answers, clips, images] = [tally.type, tally.answers, tally.clips, tally.images].map(([a, t]) => ratio(a, t));
+
+  const parts: [keyof typeof SCORE_WEIGHTS, number | null][] = [
+    ["type", type.rate],
+    ["units", f1],
+    ["answers", answers.rate],
+    ["clips", clips.rate],
+    ["images", images.rate],
+    ["flags", flagAll.rate],
+  ];
+  let weight = 0;
+  let sum = 0;
+  for (const [k, rate] of parts) {
+    if (rate == null) continue;
+    weight += SCORE_WEIGHTS[k];
+    sum += SCORE_WEIGHTS[k] * rate;
+  }
+
+  return {
+    activities: { ...activityCount, confusion, type },
+    units: { ...unitCount, recall, precision, f1 },
+    answers,
+    clips,
+    images,
+    flags,
+    overall: weight ? sum / weight : 0,
+    notes,
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * CANONICAL serializer: Module → .module text — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - reactor-module-tools/module-preview/src/module_serializer.ts
+ *   - lr-cursor-extension/src/parser/module_serializer.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * The inverse of parseModuleFile: `parseModuleFile(serializeModule(m))` yields
+ * a Module equal to `m` for anything the text format can express. Output is the
+ * canonical layout (header field order, one blank line between items, assets
+ * trailing as `{image} {audio}`), so scripts can edit the structured form and
+ * write it back instead of regex-patching text.
+ *
+ * Not representable in the text format (dropped / normalized on output):
+ *   - enrichment-only fields (translations, nlp, tts data URLs, vocab definitions,
+ *     VoiceSpec.displayName) — the parser always emits null for them;
+ *   - a speaker-less line directly after a speaker line (a bare `LINE:`
+ *     continues the current speaker);
+ *   - `#` comments and GRAMMAR markdown lines starting with `#` (the parser
+ *     never keeps them either).
+ */
+
+import {
+  Module,
+  ModuleVoiceConfig,
+  VoiceSpec,
+  LessonContent,
+  Activity,
+  DialogueActivity,
+  GrammarActivity,
+  SelectActivity,
+  SelectOption,
+  SelectItem,
+  ProduceActivity,
+  ProduceItem,
+  ChatActivity,
+} from "./module_types";
+
+// =============================================================================
+// MODULE SERIALIZER
+// =============================================================================
+
+export function serializeModule(module: Module): string {
+  const out: string[] = [];
+
+  out.push(markerLine("MODULE", module.title, module.image));
+  out.push(...serializeHeader(module));
+
+  for (const lesson of module.lessons) {
+    out.push("", ...serializeLesson(lesson));
+  }
+
+  return out.join("\n") + "\n";
+}
+
+function serializeHeader(module: Module): string[] {
+  const out: string[] = ["FORMAT: 2"];
+  if (module.moduleKey) out.push(`DIOCO_DOC_ID: ${module.moduleKey}`);
+  if (module.description) out.push(`DESCRIPTION: ${module.description}`);
+  out.push(`TARGET_LANG_G: ${module.targetLang_G}`);
+  out.push(`HOME_LANG_G: ${module.homeLang_G}`);
+  if (module.ttsPrompt) out.push(`TTS_PROMPT: ${module.ttsPrompt}`);
+  out.push(...serializeVoiceConfig(module.voiceConfig));
+  return out;
+}
+
+function voiceSpecStr(spec: VoiceSpec): string {
+  return spec.prompt ? `${spec.voice} | ${spec.prompt}` : spec.voice;
+}
+
+function serializeVoiceConfig(vc: ModuleVoiceConfig): string[] {
+  const out: string[] = [];
+  if (vc.default) out.push(`VOICE_DEFAULT: ${voiceSpecStr(vc.default)}`);
+  if (vc.introVoice) out.push(`VOICE_INTRO: ${voiceSpecStr(vc.introVoice)}`);
+  if (vc.prompt) out.push(`VOICE_PROMPT: ${voiceSpecStr(vc.prompt)}`);
+  if (vc.response) out.push(`VOICE_RESPONSE: ${voiceSpecStr(vc.response)}`);
+  for (const [speakerId, spec] of Object.entries(vc.speakers)) {
+    out.push(`VOICE: ${speakerId} | ${voiceSpecStr(spec)}`);
+  }
+  return out;
+}
+
+function serializeLesson(lesson: LessonContent): string[] {
+  const out: string[] = [markerLine("LESSON", lesson.title)];
+  for (const a of lesson.activities) {
+    out.push("", ...serializeActivity(a));
+  }
+  return out;
+}
+
+export function serializeActivity(a: Activity): string[] {
+  switch (a.type) {
+    case "DIALOGUE":
+      return serializeDialogue(a as DialogueActivity);
+    case "GRAMMAR":
+      return serializeGrammar(a as GrammarActivity);
+    case "SELECT":
+      return serializeSelect(a as SelectActivity);
+    case "PRODUCE":
+      return serializeProduce(a as ProduceActivity);
+    case "CHAT":
+      return serializeChat(a as ChatActivity);
+  }
+}
+
+// =============================================================================
+// ACTIVITY SERIALIZERS
+// =============================================================================
+
+// Marker line + the fields every activity may carry (INTRO / INSTRUCTION).
+function activityHead(a: Activity, image: string | null, instruction: string | null): string[] {
+  const out = [markerLine(a.type, a.title, image)];
+  if (a.intro) out.push(`INTRO: ${a.intro}`);
+  if (instruction) out.push(`INSTRUCTION: ${instruction}`);
+  return out;
+}
+
+function serializeDialogue(a: DialogueActivity): string[] {
+  const out = activityHead(a, a.image, a.instruction);
+  if (a.ttsPrompt) out.push(`TTS_PROMPT: ${a.ttsPrompt}`);
+  if (a.repeat) out.push("REPEAT");
+
+  a.lines.forEach((line, i) => {
+    // Lines run contiguously; a line that introduces vocab opens a new block.
+    if (i === 0 || line.vocab?.length) out.push("");
+    for (const v of line.vocab || []) out.push(`VOCAB: ${v.word}`);
+    const text = withAssets(line.text, line.image, line.audio);
+    // Screenplay style; a speaker-less line is a bare LINE.
+    out.push(line.speaker ? `${line.speaker}: ${text}` : `LINE: ${text}`);
+    if (line.notes) out.push(`NOTES: ${line.notes}`);
+  });
+  return out;
+}
+
+function serializeGrammar(a: GrammarActivity): string[] {
+  const out = activityHead(a, null, null);
+  if (a.content) out.push("", a.content);
+  return out;
+}
+
+function serializeOption(o: SelectOption): string {
+  return `OPTION: ${o.id} | ${withAssets(o.text ?? "", o.image, o.audio)}`;
+}
+
+// TEMPLATE (read-only context) precedes the spoken PROMPT; the item image rides
+// the PROMPT when there is one (TEMPLATE never carries audio).
+function serializeStimulus(
+  out: string[],
+  item: { prompt: string | null; template: string | null; promptImage: string | null; audio: string | null },
+): void {
+  if (item.template != null) {
+    out.push(fieldLine("TEMPLATE", withAssets(item.template, item.prompt == null ? item.promptImage : null)));
+  }
+  if (item.prompt != null) {
+    out.push(fieldLine("PROMPT", withAssets(item.prompt, item.promptImage, item.audio)));
+  }
+}
+
+function serializeSelect(a: SelectActivity): string[] {
+  const out = activityHead(a, a.image, a.instruction);
+  if (a.repeat) out.push("REPEAT");
+  if (a.showPrompt) out.push("SHOW_PROMPT");
+  if (a.multi) out.push("MULTI");
+  // Shared pool options must precede the first item.
+  for (const o of a.options) out.push(serializeOption(o));
+
+  for (const item of a.items) out.push("", ...serializeSelectItem(item));
+  return out;
+}
+
+function serializeSelectItem(item: SelectItem): string[] {
+  const out: string[] = [];
+  if (item.isExample) out.push("EXAMPLE");
+  serializeStimulus(out, item);
+  for (const o of item.options || []) out.push(serializeOption(o));
+  if (item.answer.length) out.push(`ANSWER: ${item.answer.join(", ")}`);
+  if (item.feedback) out.push(`FEEDBACK: ${item.feedback}`);
+  return out;
+}
+
+function serializeProduce(a: ProduceActivity): string[] {
+  const out = activityHead(a, a.image, a.instruction);
+  if (a.ttsPrompt) out.push(`TTS_PROMPT: ${a.ttsPrompt}`);
+  // Defaults (speak / reveal) are implied; only non-default values are written.
+  if (a.input !== "speak") out.push(`INPUT: ${a.input}`);
+  if (a.check !== "reveal") out.push(`CHECK: ${a.check}`);
+  if (a.repeat) out.push("REPEAT");
+  if (a.showPrompt) out.push("SHOW_PROMPT");
+
+  for (const item of a.items) out.push("", ...serializeProduceItem(item));
+  return out;
+}
+
+function serializeProduceItem(item: ProduceItem): string[] {
+  const out: string[] = [];
+  if (item.isExample) out.push("EXAMPLE");
+  serializeStimulus(out, item);
+  if (item.response != null) out.push(fieldLine("RESPONSE", withAssets(item.response, null, item.responseAudio)));
+  if (item.accept?.length) out.push(`ACCEPT: ${item.accept.join(" | ")}`);
+  if (item.rubric) out.push(`RUBRIC: ${item.rubric}`);
+  return out;
+}
+
+function serializeChat(a: ChatActivity): string[] {
+  const out = activityHead(a, null, null);
+  if (a.scenario) out.push(`SCENARIO: ${a.scenario}`);
+  if (a.initialPrompt) out.push(`INITIAL_PROMPT: ${a.initialPrompt}`);
+  return out;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// An empty value (e.g. a clip-only PROMPT stripped of its clip) leaves no trailing space.
+function fieldLine(field: string, value: string): string {
+  return value ? `${field}: ${value}` : `${field}:`;
+}
+
+// `$MARKER Title {image}` — a marker title line carries at most the block image.
+function markerLine(marker: string, title: string, image: string | null = null): string {
+  const rest = withAssets(title, image);
+  return rest ? `$${marker} ${rest}` : `$${marker}`;
+}
+
+// Inline assets trail the text: image first, audio LAST (see extractInlineAssets).
+function withAssets(text: string, image: string | null, audio: string | null = null): string {
+  const parts = [text.trim()];
+  if (image) parts.push(`{${image}}`);
+  if (audio) parts.push(`{${audio}}`);
+  return parts.filter(Boolean).join(" ");
+}
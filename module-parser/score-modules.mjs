@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+/**
+ * Score converter output against hand-authored gold modules with the CANONICAL
+ * scorer (scoreModule in module_score.ts, bundled on the fly), so changes to
+ * the prompts of convert-course.js / convert-alc.js can be regression-tested.
+ *
+ * Usage:
+ *   node module-parser/score-modules.mjs lesson-1A.gold.module 1A.prev.module 1A.new.module
+ *   node module-parser/score-modules.mjs gold/ data/x/module --min-score 0.8
+ *   node module-parser/score-modules.mjs lesson-1A.gold.module 1A.new.module --details
+ *
+ * The first path is the gold, every other path a candidate scored against it.
+ * A gold directory is matched file by file: each candidate directory's .module
+ * files are scored against the gold file of the same name (others are skipped).
+ *
+ * Output (--format):
+ *   text  (default) one block per candidate:
+ *           1A.new.module vs lesson-1A.gold.module: overall 0.77
+ *             activities  9/9 matched, type 9/9
+ *             units       recall 0.77, precision 0.98, F1 0.86
+ *             ...
+ *         --details adds every disagreement (missing unit, wrong answer, clip, flag …).
+ *   json  [{ gold, candidate, score: { activities, units, answers, clips, images, flags, overall, notes } }]
+ *
+ * Exit code: 1 if any overall score is below --min-score, 2 on usage errors, else 0.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const FORMATS = new Set(['text', 'json']);
+const VALUE_MAX = 80;
+
+function usage(msg) {
+  if (msg) console.error(`score-modules: ${msg}`);
+  console.error('Usage: node module-parser/score-modules.mjs <gold.module|dir> <candidate.module|dir>... [--format text|json] [--min-score N] [--details]');
+  process.exit(2);
+}
+
+function parseArgs(argv) {
+  const opts = { paths: [], format: 'text', minScore: null, details: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format') opts.format = argv[++i];
+    else if (a === '--min-score') opts.minScore = Number(argv[++i]);
+    else if (a === '--details') opts.details = true;
+    else if (a === '-h' || a === '--help') usage();
+    else if (a.startsWith('--')) usage(`unknown option ${a}`);
+    else opts.paths.push(a);
+  }
+  if (opts.paths.length < 2) usage('expected a gold and at least one candidate');
+  if (!FORMATS.has(opts.format)) usage(`unknown format "${opts.format}"`);
+  if (opts.minScore !== null && !(opts.minScore >= 0 && opts.minScore <= 1)) usage('--min-score must be between 0 and 1');
+  for (const p of opts.paths) if (!fs.existsSync(p)) usage(`no such file or directory: ${p}`);
+  return opts;
+}
+
+// The canonical parser + scorer, bundled from TS on the fly.
+async function loadScorer() {
+  const r = await build({
+    stdin: {
+      contents: 'export { parseModuleFileTolerant } from "./module_parser"; export { scoreModule } from "./module_score";',
+      resolveDir: here,
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+  });
+  return import('data:text/javascript;base64,' + Buffer.from(r.outputFiles[0].text).toString('base64'));
+}
+
+// [gold, candidate] file pairs.
+function filePairs([gold, ...candidates]) {
+  const goldDir = fs.statSync(gold).isDirectory();
+  const pairs = [];
+  for (const c of candidates) {
+    if (fs.statSync(c).isDirectory() !== goldDir) usage('score a gold file against files, or a gold directory against directories');
+    if (!goldDir) {
+      pairs.push([gold, c]);
+      continue;
+    }
+    for (const n of fs.readdirSync(c).filter((n) => n.endsWith('.module')).sort()) {
+      if (fs.existsSync(path.join(gold, n))) pairs.push([path.join(gold, n), path.join(c, n)]);
+    }
+  }
+  if (!pairs.length) usage('no candidate .module has a gold file of the same name');
+  return pairs;
+}
+
+function parse(scorer, file) {
+  // The parser warns about unknown markers on the console; the score is what matters here.
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return scorer.parseModuleFileTolerant(fs.readFileSync(file, 'utf8')).module;
+  } finally {
+    console.warn = warn;
+  }
+}
+
+const num = (x) => (x == null ? '—' : x.toFixed(2));
+const frac = (r) => (r.total ? `${r.agree}/${r.total}` : '—');
+
+function formatValue(s) {
+  const v = s.replace(/\s+/g, ' ').trim();
+  return v.length > VALUE_MAX ? `${v.slice(0, VALUE_MAX)}…` : v;
+}
+
+function formatScore(s) {
+  const confusion = Object.entries(s.activities.confusion)
+    .flatMap(([g, cs]) => Object.entries(cs).filter(([c]) => c !== g).map(([c, n]) => `${g}→${c} ×${n}`))
+    .join(', ');
+  const flags = Object.entries(s.flags).filter(([, r]) => r.total).map(([f, r]) => `${f} ${frac(r)}`).join(', ');
+  return [
+    `  activities  ${s.activities.matched}/${s.activities.gold} matched (${s.activities.candidate} in candidate), type ${frac(s.activities.type)}${confusion ? ` — ${confusion}` : ''}`,
+    `  units       ${s.units.matched}/${s.units.gold} matched (${s.units.candidate} in candidate), recall ${num(s.units.recall)}, precision ${num(s.units.precision)}, F1 ${num(s.units.f1)}`,
+    `  answers     ${frac(s.answers)}`,
+    `  clips       ${frac(s.clips)}`,
+    `  images      ${frac(s.images)}`,
+    `  flags       ${flags || '—'}`,
+  ];
+}
+
+const opts = parseArgs(process.argv.slice(2));
+const scorer = await loadScorer();
+
+const reports = filePairs(opts.paths).map(([gold, candidate]) => ({
+  gold,
+  candidate,
+  score: scorer.scoreModule(parse(scorer, gold), parse(scorer, candidate)),
+}));
+const failed = opts.minScore !== null && reports.some((r) => r.score.overall < opts.minScore);
+
+if (opts.format === 'json') {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  for (const { gold, candidate, score } of reports) {
+    const below = opts.minScore !== null && score.overall < opts.minScore ? ` (below ${opts.minScore})` : '';
+    console.log(`${candidate} vs ${gold}: overall ${num(score.overall)}${below}`);
+    for (const line of formatScore(score)) console.log(line);
+    if (opts.details) {
+      for (const n of score.notes) {
+        console.log(`    ${n.metric.padEnd(8)} ${n.where}: ${formatValue(n.gold)} → ${formatValue(n.candidate)}`);
+      }
+    }
+    console.log('');
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -27,6 +27,11 @@ const TARGETS = {
     'reactor-module-tools/lr-cursor-extension/src/parser',
     'dioco-base/src/modules',
   ],
+  'module_cst.ts': [
+    'reactor-module-tools/module-preview/src',
+    'reactor-module-tools/lr-cursor-extension/src/parser',
+    'dioco-base/src/modules',
+  ],
   'module_spec.ts': [
     'reactor-module-tools/module-preview/src',
     'reactor-module-tools/lr-cursor-extension/src/parser',
@@ -35,6 +40,25 @@ const TARGETS = {
     'reactor-module-tools/module-preview/src',
     'reactor-module-tools/lr-cursor-extension/src/parser',
   ],
+  'module_answers.ts': [
+    'reactor-module-tools/module-preview/src',
+    'reactor-module-tools/lr-cursor-extension/src/parser',
+    'dioco-base/src/modules',
+  ],
+  'module_grading.ts': [
+    'reactor-module-tools/module-preview/src',
+    'dioco-base/src/modules',
+  ],
+  'module_diff.ts': [
+    'reactor-module-tools/module-preview/src',
+  ],
+  'module_serializer.ts': [
+    'reactor-module-tools/module-preview/src',
+    'reactor-module-tools/lr-cursor-extension/src/parser',
+  ],
+  'module_language.ts': [
+    'reactor-module-tools/lr-cursor-extension/src/parser',
+  ],
 };
 
 const banner = (name) =>
@@ -1,38 +1,13 @@
-import { parseModuleFile } from './lc_parser';
+import { parseModuleFileTolerant, type ModuleParseError } from './lc_parser';
 import type { Module, Activity, DialogueActivity, SelectActivity, ProduceActivity, GrammarActivity, ChatActivity, VoiceSpec } from './lc_types';
 import { marked } from 'marked';
-import { lintModuleText, type Diagnostic } from './diagnostics';
+import { lintModuleText, getQuickFix, applyQuickFix, type Diagnostic } from './diagnostics';
 import { buildActivityRawIndex, type RawBlock } from './source_index';
-
-type ElChild = Node | string | null | undefined | false;
-
-function el<K extends keyof HTMLElementTagNameMap>(
-    tag: K,
-    attrs: Record<string, any> = {},
-    children: ElChild[] = []
-): HTMLElementTagNameMap[K] {
-    const node = document.createElement(tag);
-    for (const [k, v] of Object.entries(attrs)) {
-        if (v === null || v === undefined || v === false) continue;
-        if (k === 'class') node.className = String(v);
-        else if (k === 'dataset' && typeof v === 'object') {
-            for (const [dk, dv] of Object.entries(v)) node.dataset[dk] = String(dv);
-        } else if (k.startsWith('on') && typeof v === 'function') {
-            (node as any)[k] = v;
-        } else {
-            node.setAttribute(k, String(v));
-        }
-    }
-    for (const c of children) {
-        if (!c) continue;
-        node.appendChild(typeof c === 'string' ? document.createTextNode(c) : c);
-    }
-    return node;
-}
-
-function clear(node: HTMLElement) {
-    while (node.firstChild) node.removeChild(node.firstChild);
-}
+import { parseModuleCst } from './module_cst';
+import { el, clear } from './dom';
+import { canPlay, renderPlayer } from './play';
+import { renderComparePage } from './compare';
+import { diffModules } from './module_diff';
 
 function slug(s: string): string {
     return s
@@ -73,7 +48,10 @@ function renderMarkdown(md: string): HTMLElement {
     return node;
 }
 
-function renderDiagnostics(diags: Diagnostic[], sourceLines: string[]): HTMLElement {
+function renderDiagnostics(diags: Diagnostic[], sourceText: string, onFix?: (fixedText: string) => void): HTMLElement {
+    const sourceLines = sourceText.split('\n');
+    // One CST for every diagnostic's quick fix, not one per diagnostic.
+    const cst = onFix ? parseModuleCst(sourceText) : null;
     const errCount = diags.filter((d) => d.severity === 'error').length;
     const warnCount = diags.filter((d) => d.severity === 'warning').length;
 
@@ -113,6 +91,23 @@ function renderDiagnostics(diags: Diagnostic[], sourceLines: string[]): HTMLElem
                                   const snippet = trimmed.length > 180 ? `${trimmed.slice(0, 180)}…` : trimmed;
                                   return el('div', { class: 'diagSnippet mono' }, [snippet]);
                               })(),
+                              (() => {
+                                  // Same quick fixes the VS Code extension offers (module_diagnostics.ts).
+                                  const fix = onFix && cst ? getQuickFix(sourceText, d, cst) : null;
+                                  if (!fix || !onFix) return null;
+                                  return el(
+                                      'span',
+                                      {
+                                          class: 'diagFix mono',
+                                          role: 'button',
+                                          onclick: (ev: Event) => {
+                                              ev.stopPropagation();
+                                              onFix(applyQuickFix(sourceText, fix));
+                                          },
+                                      },
+                                      [`Fix: ${fix.title}`]
+                                  );
+                              })(),
                           ]
                       )
                   )
@@ -161,13 +156,15 @@ function formatVoiceLine(label: string, value: string | VoiceSpec | null | undef
 }
 
 function renderPreviewPage(params: {
-    module: Module | null;
+    module: Module;
     rawIndex: Record<string, RawBlock>;
     diagnostics: Diagnostic[];
     sourceText: string;
-    parseError: unknown | null;
+    parseErrors: ModuleParseError[];
+    /** Re-render with quick-fixed source text. */
+    onFix?: (fixedText: string) => void;
 }): HTMLElement {
-    const { module: mod, rawIndex, diagnostics, sourceText, parseError } = params;
+    const { module: mod, rawIndex, diagnostics, sourceText, parseErrors, onFix } = params;
     const container = el('div', { class: 'layout' });
     const sidebar = el('aside', { class: 'sidebar' });
     const main = el('main', { class: 'main' });
@@ -205,7 +202,7 @@ function renderPreviewPage(params: {
                 el('div', { class: 'lessonTitle' }, ['Diagnostics']),
                 el('div', { class: 'lessonMeta mono' }, ['Lint results from the formal EBNF-driven rules']),
             ]),
-            renderDiagnostics(diagnostics, sourceText.split('\n')),
+            renderDiagnostics(diagnostics, sourceText, onFix),
         ])
     );
     main.appendChild(
@@ -219,13 +216,8 @@ function renderPreviewPage(params: {
         ])
     );
 
-    if (!mod) {
-        // Parser failed — still show error and keep debug sections in TOC.
-        if (parseError) main.appendChild(renderError(parseError));
-        container.appendChild(sidebar);
-        container.appendChild(main);
-        return container;
-    }
+    // Tolerant parse: whatever was skipped is listed, the rest still renders.
+    if (parseErrors.length) main.appendChild(renderParseErrors(parseErrors));
 
     const header = el('section', { class: 'moduleHeader card' }, [
         el('div', { class: 'moduleTitleRow' }, [
@@ -321,7 +313,7 @@ function renderPreviewPage(params: {
                 ])
             );
 
-            lessonSection.appendChild(renderActivity(activity, actId, rawIndex));
+            lessonSection.appendChild(renderActivity(activity, actId, mod.targetLang_G, rawIndex));
         }
 
         main.appendChild(lessonSection);
@@ -332,8 +324,25 @@ function renderPreviewPage(params: {
     return container;
 }
 
-function renderActivity(activity: Activity, id: string, rawIndex?: Record<string, RawBlock>): HTMLElement {
+function renderActivity(activity: Activity, id: string, lang: string, rawIndex?: Record<string, RawBlock>): HTMLElement {
     const raw = rawIndex?.[activity.id];
+    // Play mode swaps the review body for the interactive player (play.ts).
+    const review = el('div', { class: 'activityBody' });
+    let player: HTMLElement | null = null;
+    const togglePlay = () => {
+        if (player) {
+            player.remove();
+            player = null;
+            review.hidden = false;
+            playBtn.textContent = 'Play';
+            return;
+        }
+        player = renderPlayer(activity, lang, togglePlay);
+        review.hidden = true;
+        review.after(player);
+        playBtn.textContent = 'Review';
+    };
+    const playBtn = el('button', { class: 'toolBtn mono', type: 'button', onclick: togglePlay }, ['Play']);
     const header = el('div', { class: 'activityHeader' }, [
         el('div', { class: 'activityTitleRow' }, [
             el('div', { class: 'activityTitleLeft' }, [
@@ -342,6 +351,7 @@ function renderActivity(activity: Activity, id: string, rawIndex?: Record<string
             ]),
             el('div', { class: 'activityTools' }, [
                 raw ? el('span', { class: 'toolPill mono' }, [`L${raw.startLine}–L${raw.endLine}`]) : null,
+                canPlay(activity) ? playBtn : null,
                 (activity.type === 'SELECT' || activity.type === 'PRODUCE') && raw
                     ? el('details', { class: 'rawDetails' }, [
                           el('summary', { class: 'toolBtn mono' }, ['Raw']),
@@ -514,14 +524,14 @@ function renderActivity(activity: Activity, id: string, rawIndex?: Record<string
         );
     }
 
-    return el('article', { class: 'activity', id }, [header, ...body]);
+    for (const node of body) review.appendChild(node);
+    return el('article', { class: 'activity', id }, [header, review]);
 }
 
-function renderError(e: unknown): HTMLElement {
-    const msg = e instanceof Error ? e.message : String(e);
+function renderParseErrors(errors: ModuleParseError[]): HTMLElement {
     return el('div', { class: 'card error' }, [
-        el('div', { class: 'errorTitle' }, ['Parse error']),
-        el('pre', { class: 'errorBody mono' }, [msg]),
+        el('div', { class: 'errorTitle' }, [errors.length === 1 ? 'Parse error' : `Parse errors (${errors.length})`]),
+        el('pre', { class: 'errorBody mono' }, [errors.map((e) => `Line ${e.line}: ${e.message}`).join('\n')]),
     ]);
 }
 
@@ -539,30 +549,46 @@ function setup(): void {
     const drop = document.querySelector<HTMLElement>('#drop')!;
     const output = document.querySelector<HTMLElement>('#output')!;
     const filename = document.querySelector<HTMLElement>('#filename')!;
+    const compareInput = document.querySelector<HTMLInputElement>('#compareFile')!;
+    // The module on screen: side A of a comparison.
+    let current: { text: string; name: string } | null = null;
 
     async function loadText(text: string, name: string) {
         clear(output as HTMLElement);
         filename.textContent = name;
+        current = { text, name };
         const diags = lintModuleText(text);
         const rawIndex = buildActivityRawIndex(text);
-        let parsed: Module | null = null;
-        let parseErr: unknown | null = null;
-        try {
-            parsed = parseModuleFile(text);
-        } catch (e) {
-            parseErr = e;
-        }
+        const { module: parsed, errors } = parseModuleFileTolerant(text);
         output.appendChild(
             renderPreviewPage({
                 module: parsed,
                 rawIndex,
                 diagnostics: diags,
                 sourceText: text,
-                parseError: parseErr,
+                parseErrors: errors,
+                onFix: (fixed) => void loadText(fixed, name),
             })
         );
     }
 
+    function compareTexts(a: { text: string; name: string }, b: { text: string; name: string }) {
+        clear(output as HTMLElement);
+        filename.textContent = `${a.name} ↔ ${b.name}`;
+        current = a;
+        const diff = diffModules(parseModuleFileTolerant(a.text).module, parseModuleFileTolerant(b.text).module);
+        output.appendChild(renderComparePage(diff, a.name, b.name, () => void loadText(a.text, a.name)));
+    }
+
+    compareInput.addEventListener('change', async () => {
+        const f = compareInput.files?.[0];
+        compareInput.value = '';
+        if (!f) return;
+        const b = { text: await readFileText(f), name: f.name };
+        if (current) compareTexts(current, b);
+        else await loadText(b.text, b.name);
+    });
+
     fileInput.addEventListener('change', async () => {
         const f = fileInput.files?.[0];
         if (!f) return;
@@ -578,9 +604,16 @@ function setup(): void {
     drop.addEventListener('drop', async (ev) => {
         ev.preventDefault();
         drop.classList.remove('drag');
-        const f = ev.dataTransfer?.files?.[0];
+        const files = ev.dataTransfer?.files;
+        const f = files?.[0];
         if (!f) return;
         if (fileInput) fileInput.value = '';
+        // Two files dropped together: compare the first (A) with the second (B).
+        if (files.length >= 2) {
+            const a = { text: await readFileText(f), name: f.name };
+            compareTexts(a, { text: await readFileText(files[1]), name: files[1].name });
+            return;
+        }
         await loadText(await readFileText(f), f.name);
     });
 
@@ -0,0 +1,153 @@
+import type { Activity, GrammarActivity, SelectOption } from './lc_types';
+import { el } from './dom';
+import {
+    countChanges,
+    elementValues,
+    type ActivityDiff,
+    type DiffValue,
+    type ElementDiff,
+    type FieldChange,
+    type LessonDiff,
+    type ModuleDiff,
+} from './module_diff';
+
+/**
+ * Side-by-side view of two versions of a module (module_diff.ts): A on the
+ * left, B on the right, lessons → activities → lines / items / options
+ * aligned row by row. Added / removed / moved / changed rows are marked and
+ * the changed fields highlighted; unchanged rows are hidden until "Show
+ * unchanged" is ticked.
+ */
+export function renderComparePage(diff: ModuleDiff, nameA: string, nameB: string, onClose: () => void): HTMLElement {
+    const counts = countChanges(diff);
+    const root = el('div', { class: 'compare hideSame' });
+    const toggle = el('input', { type: 'checkbox' }) as HTMLInputElement;
+    toggle.onchange = () => root.classList.toggle('hideSame', !toggle.checked);
+
+    root.appendChild(
+        el('section', { class: 'card compareHeader' }, [
+            el('div', { class: 'compareSides' }, [
+                el('div', { class: 'compareSide mono' }, [el('span', { class: 'pill' }, ['A']), ` ${nameA}`]),
+                el('div', { class: 'compareSide mono' }, [el('span', { class: 'pill' }, ['B']), ` ${nameB}`]),
+            ]),
+            el('div', { class: 'pillRow' }, [
+                el('span', { class: 'pill diff-added' }, [`${counts.added} added`]),
+                el('span', { class: 'pill diff-removed' }, [`${counts.removed} removed`]),
+                el('span', { class: 'pill diff-moved' }, [`${counts.moved} moved`]),
+                el('span', { class: 'pill diff-changed' }, [`${counts.changed} changed`]),
+                el('label', { class: 'compareToggle' }, [toggle, ' Show unchanged']),
+                el('button', { class: 'toolBtn mono', type: 'button', onclick: onClose }, ['Back to A']),
+            ]),
+            diff.fields.length ? fieldTable(diff.fields) : null,
+            diff.changes.length ? null : el('div', { class: 'muted' }, ['No structural differences.']),
+        ])
+    );
+    for (const lesson of diff.lessons) root.appendChild(renderLesson(lesson));
+    return root;
+}
+
+function renderLesson(lesson: LessonDiff): HTMLElement {
+    const title = (lesson.b ?? lesson.a)!.title;
+    return el('section', { class: `lesson card diffNode diff-${lesson.status}${lesson.moved ? ' diff-moved' : ''}` }, [
+        el('div', { class: 'lessonBanner' }, [
+            el('span', { class: 'lessonPill mono' }, [positions('LESSON', lesson)]),
+            el('div', { class: 'lessonTitle' }, [title]),
+            statusPill(lesson.status, lesson.moved ? `moved, was lesson ${lesson.indexA! + 1}` : null),
+        ]),
+        lesson.fields.length ? fieldTable(lesson.fields) : null,
+        ...lesson.activities.map(renderActivity),
+    ]);
+}
+
+function renderActivity(act: ActivityDiff): HTMLElement {
+    const title = (act.b ?? act.a)!.title;
+    const moved = act.fromLesson ? `moved from ${act.fromLesson}` : act.moved ? `moved, was activity ${act.indexA! + 1}` : null;
+    const grammar = act.type === 'GRAMMAR' && act.status !== 'same';
+    return el('article', { class: `activity diffNode diff-${act.status}${moved ? ' diff-moved' : ''}` }, [
+        el('div', { class: 'activityTitleRow' }, [
+            el('div', { class: 'activityTitleLeft' }, [
+                el('span', { class: `badge badge-${act.type.toLowerCase()} mono` }, [act.type]),
+                el('div', { class: 'activityTitle' }, [title]),
+                el('span', { class: 'muted mono' }, [act.id]),
+            ]),
+            statusPill(act.status, moved),
+        ]),
+        act.fields.length ? fieldTable(act.fields.filter((f) => !grammar || f.field !== 'content')) : null,
+        grammar ? sideBySide(grammarText(act.a), grammarText(act.b)) : null,
+        act.elements.length ? el('div', { class: 'diffRows' }, act.elements.map(renderElement)) : null,
+    ]);
+}
+
+function renderElement(e: ElementDiff): HTMLElement {
+    const changed = new Set(e.fields.map((f) => f.field));
+    const cell = (side: 'a' | 'b') => {
+        const values = elementValues(e, side);
+        if (!values.length) return el('div', { class: 'diffCell empty' });
+        return el(
+            'div',
+            { class: 'diffCell' },
+            values.map((f) =>
+                el('div', { class: `diffField${changed.has(f.field) ? ' diffFieldChanged' : ''}` }, [
+                    el('span', { class: 'k mono' }, [f.label]),
+                    ' ',
+                    formatValue(f.value),
+                ])
+            )
+        );
+    };
+    const label = (side: 'a' | 'b') => {
+        const index = side === 'a' ? e.indexA : e.indexB;
+        if (index == null) return '';
+        return e.kind === 'option' ? `option ${((side === 'a' ? e.a : e.b) as SelectOption).id}` : `${e.kind} ${index + 1}`;
+    };
+    return el('div', { class: `diffRow diffNode diff-${e.status}${e.moved ? ' diff-moved' : ''}` }, [
+        el('div', { class: 'diffIdx mono muted' }, [label('a')]),
+        cell('a'),
+        el('div', { class: 'diffIdx mono muted' }, [label('b')]),
+        cell('b'),
+    ]);
+}
+
+function fieldTable(fields: FieldChange[]): HTMLElement {
+    return el(
+        'div',
+        { class: 'diffFields' },
+        fields.map((f) =>
+            el('div', { class: 'diffRow diff-changed' }, [
+                el('div', { class: 'diffIdx mono muted' }, [f.label]),
+                el('div', { class: 'diffCell' }, [formatValue(f.before)]),
+                el('div', { class: 'diffIdx' }),
+                el('div', { class: 'diffCell' }, [formatValue(f.after)]),
+            ])
+        )
+    );
+}
+
+function sideBySide(a: string | null, b: string | null): HTMLElement {
+    return el('div', { class: 'diffRow diff-changed' }, [
+        el('div', { class: 'diffIdx' }),
+        el('div', { class: 'diffCell grammarPre mono' }, [a ?? '']),
+        el('div', { class: 'diffIdx' }),
+        el('div', { class: 'diffCell grammarPre mono' }, [b ?? '']),
+    ]);
+}
+
+function grammarText(a: Activity | null): string | null {
+    return a && a.type === 'GRAMMAR' ? (a as GrammarActivity).content : null;
+}
+
+function statusPill(status: string, moved: string | null): HTMLElement | null {
+    if (status === 'same' && !moved) return null;
+    return el('span', { class: 'pill mono' }, [[status === 'same' ? null : status, moved].filter(Boolean).join(' · ')]);
+}
+
+function positions(label: string, x: { indexA: number | null; indexB: number | null }): string {
+    const at = (i: number | null) => (i == null ? '—' : String(i + 1));
+    return x.indexA === x.indexB ? `${label} ${at(x.indexB)}` : `${label} ${at(x.indexA)} → ${at(x.indexB)}`;
+}
+
+function formatValue(v: DiffValue): HTMLElement | string {
+    if (v === null) return el('span', { class: 'muted' }, ['—']);
+    if (typeof v === 'boolean') return v ? 'on' : 'off';
+    return v;
+}
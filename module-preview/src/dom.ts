@@ -0,0 +1,31 @@
+// Tiny DOM helpers shared by the review page (app.ts) and play mode (play.ts).
+
+export type ElChild = Node | string | null | undefined | false;
+
+export function el<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    attrs: Record<string, any> = {},
+    children: ElChild[] = []
+): HTMLElementTagNameMap[K] {
+    const node = document.createElement(tag);
+    for (const [k, v] of Object.entries(attrs)) {
+        if (v === null || v === undefined || v === false) continue;
+        if (k === 'class') node.className = String(v);
+        else if (k === 'dataset' && typeof v === 'object') {
+            for (const [dk, dv] of Object.entries(v)) node.dataset[dk] = String(dv);
+        } else if (k.startsWith('on') && typeof v === 'function') {
+            (node as any)[k] = v;
+        } else {
+            node.setAttribute(k, String(v));
+        }
+    }
+    for (const c of children) {
+        if (!c) continue;
+        node.appendChild(typeof c === 'string' ? document.createTextNode(c) : c);
+    }
+    return node;
+}
+
+export function clear(node: HTMLElement) {
+    while (node.firstChild) node.removeChild(node.firstChild);
+}
@@ -0,0 +1,192 @@
+// AUTO-SYNCED COPY — DO NOT EDIT.
+// Canonical source: reactor-module-tools/module-parser/module_answers.ts
+// To update: edit the canonical file, then run `node module-parser/sync.mjs`.
+
+/**
+ * CANONICAL answer checking for PRODUCE `CHECK: exact` — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - reactor-module-tools/module-preview/src/module_answers.ts
+ *   - lr-cursor-extension/src/parser/module_answers.ts
+ *   - dioco-base/src/modules/module_answers.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * "exact" is a match of the learner's input against RESPONSE or any ACCEPT
+ * after normalizeAnswer on both sides:
+ *   - Unicode NFC; apostrophe variants (’ ‘ ʼ ` ´) become `'`;
+ *   - case folded for the target language (Turkish dotted/dotless i, …);
+ *   - contractions expanded where the language has optional ones
+ *     (en: don't = do not, I'm = I am, can't = cannot; de: geht's = geht es);
+ *   - punctuation and symbols dropped (hyphens split words; an apostrophe
+ *     inside a word, as in l'homme / o'clock, is kept);
+ *   - whitespace collapsed and trimmed;
+ *   - with `ignoreDiacritics`, accents dropped as well (é = e, ü = u).
+ *
+ * Anything else is a miss. A miss is a "near-miss" when it differs only in
+ * accents, or by a typo or two (edit distance within NEAR_MISS_RATIO of the
+ * answer's length) — worth an "almost" rather than a plain "wrong".
+ */
+
+import type { ProduceItem } from "./module_types";
+
+export type AnswerVerdict = "match" | "near-miss" | "wrong";
+
+/** Word-level difference from the learner's input to the expected answer. */
+export interface AnswerDiffPart {
+  /** "missing": in the answer, not typed. "extra": typed, not in the answer. */
+  op: "equal" | "missing" | "extra";
+  text: string;
+}
+
+export interface AnswerCheck {
+  verdict: AnswerVerdict;
+  /** The RESPONSE / ACCEPT string matched, or the closest one; null if the item has none. */
+  expected: string | null;
+  /** Why a near-miss is near: only accents differ, or a small typo. */
+  reason: "diacritics" | "typo" | null;
+  /** Normalized words, input → expected; empty for a match. */
+  diff: AnswerDiffPart[];
+}
+
+export interface AnswerCheckOptions {
+  /** Accept answers that differ only in diacritics (default: they are a near-miss). */
+  ignoreDiacritics?: boolean;
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+const APOSTROPHES_RE = /[’‘ʼ`´′]/g;
+
+// Optional contractions per language, expanded to the long form. Mandatory
+// ones (fr l', es al / del) are part of the answer and stay as written.
+const CONTRACTIONS: Record<string, [RegExp, string][]> = {
+  en: [
+    [/\bcan't\b/g, "cannot"],
+    [/\bcan not\b/g, "cannot"],
+    [/\bwon't\b/g, "will not"],
+    [/\bshan't\b/g, "shall not"],
+    [/\b(\p{L}+)n't\b/gu, "$1 not"],
+    [/\bi'm\b/g, "i am"],
+    [/\blet's\b/g, "let us"],
+    [/\b(it|that|what|he|she|there|here|who|where|how)'s\b/g, "$1 is"],
+    [/\b(\p{L}+)'re\b/gu, "$1 are"],
+    [/\b(\p{L}+)'ve\b/gu, "$1 have"],
+    [/\b(\p{L}+)'ll\b/gu, "$1 will"],
+  ],
+  de: [[/\b(\p{L}+)'s\b/gu, "$1 es"]],
+};
+
+const baseLang = (lang: string) => (lang || "").toLowerCase().split(/[-_]/)[0];
+
+function foldCase(s: string, lang: string): string {
+  try {
+    return s.toLocaleLowerCase(baseLang(lang) || undefined);
+  } catch {
+    return s.toLowerCase(); // unknown locale tag
+  }
+}
+
+const stripDiacritics = (s: string) => s.normalize("NFD").replace(/\p{M}+/gu, "").normalize("NFC");
+
+/** The form two answers are compared in; see the file header for the steps. */
+export function normalizeAnswer(s: string, lang: string, options: AnswerCheckOptions = {}): string {
+  let out = foldCase(s.normalize("NFC").replace(APOSTROPHES_RE, "'"), lang);
+  for (const [re, long] of CONTRACTIONS[baseLang(lang)] ?? []) out = out.replace(re, long);
+  out = out
+    .replace(/(?<=\p{L})'(?=\p{L})/gu, "\u0000") // keep word-internal apostrophes
+    .replace(/[\p{P}\p{S}]+/gu, " ")
+    .replace(/\u0000/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+  return options.ignoreDiacritics ? stripDiacritics(out) : out;
+}
+
+// =============================================================================
+// CHECKING
+// =============================================================================
+
+/** Edit distance allowed for a near-miss, as a share of the answer's length (at least 1, at most 3). */
+export const NEAR_MISS_RATIO = 0.15;
+
+/**
+ * Check a learner's input against a PRODUCE item's RESPONSE and ACCEPT
+ * strings the way `CHECK: exact` does (see the file header). `lang` is the
+ * module's TARGET_LANG_G. An item with neither RESPONSE nor ACCEPT matches
+ * nothing.
+ */
+export function checkProduceAnswer(
+  item: Pick<ProduceItem, "response" | "accept">,
+  input: string,
+  lang: string,
+  options: AnswerCheckOptions = {},
+): AnswerCheck {
+  const candidates = [item.response, ...(item.accept ?? [])].filter((s): s is string => s != null);
+  const got = normalizeAnswer(input, lang, options);
+
+  let best: { expected: string; norm: string; distance: number } | null = null;
+  for (const expected of candidates) {
+    const norm = normalizeAnswer(expected, lang, options);
+    if (norm === got) return { verdict: "match", expected, reason: null, diff: [] };
+    const distance = editDistance(got, norm);
+    if (!best || distance < best.distance) best = { expected, norm, distance };
+  }
+  if (!best) return { verdict: "wrong", expected: null, reason: null, diff: [] };
+
+  if (got && !options.ignoreDiacritics) {
+    // Only the accents differ: report against the candidate that differs that way.
+    const bare = stripDiacritics(got);
+    const expected = candidates.find((c) => stripDiacritics(normalizeAnswer(c, lang)) === bare);
+    if (expected != null) {
+      return { verdict: "near-miss", expected, reason: "diacritics", diff: diffWords(got, normalizeAnswer(expected, lang)) };
+    }
+  }
+  const diff = diffWords(got, best.norm);
+  const allowed = Math.min(3, Math.max(1, Math.round(best.norm.length * NEAR_MISS_RATIO)));
+  if (got && best.distance <= allowed) return { verdict: "near-miss", expected: best.expected, reason: "typo", diff };
+  return { verdict: "wrong", expected: best.expected, reason: null, diff };
+}
+
+// Levenshtein distance over code points.
+function editDistance(a: string, b: string): number {
+  const x = [...a];
+  const y = [...b];
+  let prev = Array.from({ length: y.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= x.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= y.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[y.length];
+}
+
+// Word diff (longest common subsequence); consecutive parts of one kind merged.
+function diffWords(input: string, expected: string): AnswerDiffPart[] {
+  const a = input ? input.split(" ") : [];
+  const b = expected ? expected.split(" ") : [];
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const parts: AnswerDiffPart[] = [];
+  const push = (op: AnswerDiffPart["op"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.text += ` ${text}`;
+    else parts.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("equal", a[i++]);
+      j++;
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) push("extra", a[i++]);
+    else push("missing", b[j++]);
+  }
+  return parts;
+}
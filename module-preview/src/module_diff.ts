@@ -0,0 +1,543 @@
+// AUTO-SYNCED COPY — DO NOT EDIT.
+// Canonical source: reactor-module-tools/module-parser/module_diff.ts
+// To update: edit the canonical file, then run `node module-parser/sync.mjs`.
+
+/**
+ * CANONICAL structural diff between two versions of a module — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - reactor-module-tools/module-preview/src/module_diff.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * diffModules(a, b) aligns the parsed modules level by level:
+ *   - lessons and activities by id. Activity ids come from type + title, so a
+ *     retitled activity is paired with an unmatched one of the same type in
+ *     the same place; an id that turns up in another lesson is a move;
+ *   - SELECT options by id;
+ *   - dialogue lines and SELECT / PRODUCE items in order: identical ones by
+ *     longest common subsequence, the rest paired with an unmatched one in the
+ *     same gap ("changed") or with an identical one elsewhere ("moved").
+ * Each pair is compared field by field: PROMPT text, ANSWER, clip, flags, …
+ *
+ * The result keeps the tree, for the preview's side-by-side view, and a flat
+ * change list, for the CLI (diff-modules.mjs).
+ */
+
+import type {
+  Activity,
+  ActivityType,
+  DialogueActivity,
+  DialogueLine,
+  LessonContent,
+  Module,
+  ProduceActivity,
+  ProduceItem,
+  SelectActivity,
+  SelectItem,
+  SelectOption,
+  VoiceSpec,
+} from "./module_types";
+
+export type DiffStatus = "same" | "changed" | "added" | "removed";
+
+/** A field value as compared: lists are joined, enums and flags kept. */
+export type DiffValue = string | boolean | null;
+
+export interface FieldChange {
+  /** Property in module_types ("prompt", "audio", "repeat", …). */
+  field: string;
+  /** How the module format names it ("PROMPT", "PROMPT clip", "REPEAT", …). */
+  label: string;
+  before: DiffValue;
+  after: DiffValue;
+}
+
+interface NodeDiff<T> {
+  /** "same" / "changed" compare a pair; a move is reported by `moved`. */
+  status: DiffStatus;
+  moved: boolean;
+  a: T | null;
+  b: T | null;
+  /** Position in a / b (0-based); null on the side the node is missing from. */
+  indexA: number | null;
+  indexB: number | null;
+  fields: FieldChange[];
+}
+
+export type DiffElement = DialogueLine | SelectItem | ProduceItem | SelectOption;
+
+export interface ElementDiff extends NodeDiff<DiffElement> {
+  kind: "line" | "item" | "option";
+}
+
+export interface ActivityDiff extends NodeDiff<Activity> {
+  id: string;
+  type: ActivityType;
+  /** For an activity moved from another lesson: that lesson's id in a. */
+  fromLesson: string | null;
+  /** Shared SELECT options first, then lines / items. */
+  elements: ElementDiff[];
+}
+
+export interface LessonDiff extends NodeDiff<LessonContent> {
+  id: string;
+  activities: ActivityDiff[];
+}
+
+export interface ModuleChange {
+  kind: "added" | "removed" | "moved" | "changed";
+  /** `lesson / activity / item 3`; positions are 1-based, in b (in a when removed). */
+  where: string;
+  lesson: string;
+  activity: string | null;
+  /** "line 3", "item 2", "option b"; null for a lesson or activity. */
+  element: string | null;
+  /** For "changed": which field; for "moved": where it was. */
+  label: string | null;
+  before: DiffValue;
+  after: DiffValue;
+}
+
+export interface ModuleDiff {
+  /** Header fields: title, languages, voices, … */
+  fields: FieldChange[];
+  lessons: LessonDiff[];
+  changes: ModuleChange[];
+}
+
+// =============================================================================
+// FIELDS
+// =============================================================================
+
+type FieldSpec = [field: string, label: string];
+
+const ACTIVITY_FIELDS: Record<ActivityType, FieldSpec[]> = {
+  DIALOGUE: [["instruction", "INSTRUCTION"], ["ttsPrompt", "TTS_PROMPT"], ["repeat", "REPEAT"], ["image", "image"]],
+  GRAMMAR: [["content", "markdown"]],
+  SELECT: [
+    ["instruction", "INSTRUCTION"],
+    ["showPrompt", "SHOW_PROMPT"],
+    ["multi", "MULTI"],
+    ["repeat", "REPEAT"],
+    ["image", "image"],
+  ],
+  PRODUCE: [
+    ["instruction", "INSTRUCTION"],
+    ["ttsPrompt", "TTS_PROMPT"],
+    ["input", "INPUT"],
+    ["check", "CHECK"],
+    ["showPrompt", "SHOW_PROMPT"],
+    ["repeat", "REPEAT"],
+    ["image", "image"],
+  ],
+  CHAT: [["scenario", "SCENARIO"], ["initialPrompt", "INITIAL_PROMPT"]],
+};
+const COMMON_ACTIVITY_FIELDS: FieldSpec[] = [["title", "title"], ["intro", "INTRO"]];
+
+const LINE_FIELDS: FieldSpec[] = [
+  ["speaker", "speaker"],
+  ["text", "text"],
+  ["audio", "clip"],
+  ["image", "image"],
+  ["notes", "NOTES"],
+  ["vocab", "VOCAB"],
+];
+const SELECT_ITEM_FIELDS: FieldSpec[] = [
+  ["isExample", "EXAMPLE"],
+  ["prompt", "PROMPT"],
+  ["template", "TEMPLATE"],
+  ["audio", "PROMPT clip"],
+  ["promptImage", "PROMPT image"],
+  ["options", "OPTION"],
+  ["answer", "ANSWER"],
+  ["feedback", "FEEDBACK"],
+];
+const PRODUCE_ITEM_FIELDS: FieldSpec[] = [
+  ["isExample", "EXAMPLE"],
+  ["prompt", "PROMPT"],
+  ["template", "TEMPLATE"],
+  ["audio", "PROMPT clip"],
+  ["promptImage", "PROMPT image"],
+  ["response", "RESPONSE"],
+  ["responseAudio", "RESPONSE clip"],
+  ["accept", "ACCEPT"],
+  ["rubric", "RUBRIC"],
+];
+const OPTION_FIELDS: FieldSpec[] = [["text", "text"], ["image", "image"], ["audio", "clip"]];
+
+const optionText = (o: SelectOption) => `${o.id}: ${[o.text, o.image && `{${o.image}}`, o.audio && `{${o.audio}}`].filter(Boolean).join(" ")}`;
+
+function diffValue(value: unknown): DiffValue {
+  if (value == null) return null;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (Array.isArray(value)) {
+    if (!value.length) return null;
+    return value
+      .map((v) => {
+        if (typeof v === "string") return v;
+        if ("word" in v) return v.definition ? `${v.word} = ${v.definition}` : v.word; // VocabItem
+        return optionText(v as SelectOption);
+      })
+      .join(" | ");
+  }
+  return String(value);
+}
+
+function compareFields(a: object, b: object, specs: FieldSpec[]): FieldChange[] {
+  const out: FieldChange[] = [];
+  for (const [field, label] of specs) {
+    const before = diffValue((a as Record<string, unknown>)[field]);
+    const after = diffValue((b as Record<string, unknown>)[field]);
+    if (before !== after) out.push({ field, label, before, after });
+  }
+  return out;
+}
+
+const valuesKey = (x: object, specs: FieldSpec[]) =>
+  JSON.stringify(specs.map(([field]) => diffValue((x as Record<string, unknown>)[field])));
+
+const voiceText = (v: VoiceSpec | null | undefined) => (v ? (v.prompt ? `${v.voice} | ${v.prompt}` : v.voice) : null);
+
+function moduleFields(m: Module): Record<string, DiffValue> {
+  const out: Record<string, DiffValue> = {
+    title: m.title,
+    DESCRIPTION: m.description,
+    image: m.image,
+    TARGET_LANG_G: m.targetLang_G,
+    HOME_LANG_G: m.homeLang_G,
+    TTS_PROMPT: m.ttsPrompt,
+    VOICE_DEFAULT: voiceText(m.voiceConfig.default),
+    VOICE_PROMPT: voiceText(m.voiceConfig.prompt),
+    VOICE_RESPONSE: voiceText(m.voiceConfig.response),
+    VOICE_INTRO: voiceText(m.voiceConfig.introVoice),
+  };
+  for (const [speaker, spec] of Object.entries(m.voiceConfig.speakers)) out[`VOICE ${speaker}`] = voiceText(spec);
+  return out;
+}
+
+function compareHeader(a: Module, b: Module): FieldChange[] {
+  const fa = moduleFields(a);
+  const fb = moduleFields(b);
+  const out: FieldChange[] = [];
+  for (const label of new Set([...Object.keys(fa), ...Object.keys(fb)])) {
+    const before = fa[label] ?? null;
+    const after = fb[label] ?? null;
+    if (before !== after) out.push({ field: label, label, before, after });
+  }
+  return out;
+}
+
+// =============================================================================
+// ALIGNMENT
+// =============================================================================
+
+interface Pair {
+  i: number | null;
+  j: number | null;
+  moved: boolean;
+}
+
+/**
+ * Pair up `as` and `bs`: equal keys in order (LCS), then equal keys out of
+ * order (moves), then, in each gap between the in-order pairs, what is left
+ * one for one where `canPair` allows (everything when the gap is the same
+ * size on both sides, else only `similar` nodes), then `similar` leftovers
+ * anywhere (moved and changed). Pairs come in b's order, each removed node
+ * after the a-node it followed.
+ */
+function align<T>(
+  as: T[],
+  bs: T[],
+  key: (x: T) => string,
+  canPair: (x: T, y: T) => boolean,
+  similar: (x: T, y: T) => boolean,
+): Pair[] {
+  const ka = as.map(key);
+  const kb = bs.map(key);
+  const lcs = Array.from({ length: as.length + 1 }, () => new Array<number>(bs.length + 1).fill(0));
+  for (let i = as.length - 1; i >= 0; i--) {
+    for (let j = bs.length - 1; j >= 0; j--) {
+      lcs[i][j] = ka[i] === kb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const partnerOfA = new Array<number | null>(as.length).fill(null);
+  const partnerOfB = new Array<number | null>(bs.length).fill(null);
+  const movedB = new Array<boolean>(bs.length).fill(false);
+  const link = (i: number, j: number) => {
+    partnerOfA[i] = j;
+    partnerOfB[j] = i;
+  };
+
+  const anchors: [number, number][] = [];
+  for (let i = 0, j = 0; i < as.length && j < bs.length; ) {
+    if (ka[i] === kb[j]) {
+      anchors.push([i, j]);
+      link(i++, j++);
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) i++;
+    else j++;
+  }
+
+  for (let i = 0; i < as.length; i++) {
+    if (partnerOfA[i] != null) continue;
+    const j = kb.findIndex((k, n) => k === ka[i] && partnerOfB[n] == null);
+    if (j < 0) continue;
+    link(i, j);
+    movedB[j] = true;
+  }
+
+  anchors.push([as.length, bs.length]);
+  let prevI = 0;
+  let prevJ = 0;
+  for (const [ai, bj] of anchors) {
+    const ga = range(prevI, ai).filter((i) => partnerOfA[i] == null);
+    const gb = range(prevJ, bj).filter((j) => partnerOfB[j] == null);
+    if (ga.length === gb.length) {
+      ga.forEach((i, n) => {
+        if (canPair(as[i], bs[gb[n]])) link(i, gb[n]);
+      });
+    } else {
+      let from = 0;
+      for (const i of ga) {
+        const n = gb.findIndex((j, m) => m >= from && canPair(as[i], bs[j]) && similar(as[i], bs[j]));
+        if (n < 0) continue;
+        link(i, gb[n]);
+        from = n + 1;
+      }
+    }
+    prevI = ai + 1;
+    prevJ = bj + 1;
+  }
+
+  // Similar nodes left over on both sides: moved and changed.
+  for (let i = 0; i < as.length; i++) {
+    if (partnerOfA[i] != null) continue;
+    const j = bs.findIndex((y, n) => partnerOfB[n] == null && canPair(as[i], y) && similar(as[i], y));
+    if (j < 0) continue;
+    link(i, j);
+    movedB[j] = true;
+  }
+
+  const out: Pair[] = [];
+  let nextA = 0;
+  const flushRemoved = (upTo: number) => {
+    for (; nextA < upTo; nextA++) if (partnerOfA[nextA] == null) out.push({ i: nextA, j: null, moved: false });
+  };
+  for (let j = 0; j < bs.length; j++) {
+    const i = partnerOfB[j];
+    if (i != null && !movedB[j]) {
+      flushRemoved(i);
+      nextA = Math.max(nextA, i + 1);
+    } else if (i == null) {
+      // Added: what was removed from the same gap goes first.
+      const k = range(j + 1, bs.length).find((n) => partnerOfB[n] != null && !movedB[n]);
+      flushRemoved(k == null ? as.length : partnerOfB[k]!);
+    }
+    // Out of order but at the same position (others moved around it): not a move.
+    out.push({ i, j, moved: movedB[j] && i !== j });
+  }
+  flushRemoved(as.length);
+  return out;
+}
+
+const range = (from: number, to: number) => Array.from({ length: Math.max(0, to - from) }, (_, n) => from + n);
+
+/** Share of common members (Jaccard), 0 … 1; two empty sets are identical. */
+export function overlap(x: Iterable<string>, y: Iterable<string>): number {
+  const a = new Set(x);
+  const b = new Set(y);
+  if (!a.size && !b.size) return 1;
+  let common = 0;
+  for (const w of a) if (b.has(w)) common++;
+  return common / (a.size + b.size - common);
+}
+
+/** A text's words as similarity measures count them: lowercased letters, digits and apostrophes. */
+export const textWords = (s: string): string[] => s.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+const SIMILAR = 0.5;
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+function node<T>(pair: Pair, as: T[], bs: T[], fields: (a: T, b: T) => FieldChange[]) {
+  const a = pair.i == null ? null : as[pair.i];
+  const b = pair.j == null ? null : bs[pair.j];
+  const changed = a != null && b != null ? fields(a, b) : [];
+  const status: DiffStatus = a == null ? "added" : b == null ? "removed" : changed.length ? "changed" : "same";
+  return { status, moved: pair.moved, a, b, indexA: pair.i, indexB: pair.j, fields: changed };
+}
+
+function elementText(x: DiffElement): string {
+  if ("id" in x) return optionText(x);
+  if ("speaker" in x) return `${x.speaker ?? ""} ${x.text}`;
+  return [x.prompt, x.template, "response" in x ? x.response : x.answer.join(" ")].filter(Boolean).join(" ");
+}
+
+function diffElements<T extends DiffElement>(
+  kind: ElementDiff["kind"],
+  as: T[],
+  bs: T[],
+  specs: FieldSpec[],
+  byId = false,
+): ElementDiff[] {
+  const key = byId ? (x: T) => (x as SelectOption).id : (x: T) => valuesKey(x, specs);
+  const canPair = byId ? () => false : () => true;
+  const similar = (x: T, y: T) => overlap(textWords(elementText(x)), textWords(elementText(y))) >= SIMILAR;
+  return align(as, bs, key, canPair, similar).map((pair) => ({
+    kind,
+    ...node<DiffElement>(pair, as, bs, (a, b) => compareFields(a, b, specs)),
+  }));
+}
+
+const linesOf = (x: Activity | null) => (x as DialogueActivity | null)?.lines ?? [];
+const optionsOf = (x: Activity | null) => (x as SelectActivity | null)?.options ?? [];
+const selectItemsOf = (x: Activity | null) => (x as SelectActivity | null)?.items ?? [];
+const produceItemsOf = (x: Activity | null) => (x as ProduceActivity | null)?.items ?? [];
+
+function activityElements(a: Activity | null, b: Activity | null): ElementDiff[] {
+  switch ((a ?? b)!.type) {
+    case "DIALOGUE":
+      return diffElements("line", linesOf(a), linesOf(b), LINE_FIELDS);
+    case "SELECT":
+      return [
+        ...diffElements("option", optionsOf(a), optionsOf(b), OPTION_FIELDS, true),
+        ...diffElements("item", selectItemsOf(a), selectItemsOf(b), SELECT_ITEM_FIELDS),
+      ];
+    case "PRODUCE":
+      return diffElements("item", produceItemsOf(a), produceItemsOf(b), PRODUCE_ITEM_FIELDS);
+    default:
+      return [];
+  }
+}
+
+function activityFields(a: Activity, b: Activity): FieldChange[] {
+  return compareFields(a, b, [...COMMON_ACTIVITY_FIELDS, ...ACTIVITY_FIELDS[a.type]]);
+}
+
+function activityDiff(pair: Pair, as: Activity[], bs: Activity[]): ActivityDiff {
+  const base = node(pair, as, bs, activityFields);
+  const elements = activityElements(base.a, base.b);
+  const status = base.status === "same" && elements.some((e) => e.status !== "same" || e.moved) ? "changed" : base.status;
+  const either = (base.b ?? base.a)!;
+  return { ...base, status, id: either.id, type: either.type, fromLesson: null, elements };
+}
+
+function activityWords(x: Activity): string[] {
+  const elements: DiffElement[] = [...linesOf(x), ...optionsOf(x), ...(x.type === "PRODUCE" ? produceItemsOf(x) : selectItemsOf(x))];
+  return textWords([x.title, ...elements.map(elementText), x.type === "GRAMMAR" ? x.content : ""].join(" "));
+}
+
+function diffActivities(as: Activity[], bs: Activity[]): ActivityDiff[] {
+  const pairs = align(
+    as,
+    bs,
+    (x) => x.id,
+    (x, y) => x.type === y.type,
+    (x, y) => overlap(activityWords(x), activityWords(y)) >= SIMILAR,
+  );
+  return pairs.map((pair) => activityDiff(pair, as, bs));
+}
+
+// An activity removed from one lesson and added to another under the same id.
+function pairMovedActivities(lessons: LessonDiff[]): void {
+  for (const from of lessons) {
+    for (const removed of [...from.activities]) {
+      if (removed.status !== "removed") continue;
+      for (const to of lessons) {
+        if (to === from) continue;
+        const k = to.activities.findIndex((x) => x.status === "added" && x.id === removed.id);
+        if (k < 0) continue;
+        const added = to.activities[k];
+        const merged = activityDiff({ i: 0, j: 0, moved: true }, [removed.a!], [added.b!]);
+        to.activities[k] = { ...merged, indexA: removed.indexA, indexB: added.indexB, fromLesson: from.id };
+        from.activities.splice(from.activities.indexOf(removed), 1);
+        break;
+      }
+    }
+  }
+  for (const l of lessons) {
+    if (l.status === "same" && l.activities.some((x) => x.status !== "same" || x.moved)) l.status = "changed";
+  }
+}
+
+/** Align two versions of a module and list what changed from `a` to `b`. */
+export function diffModules(a: Module, b: Module): ModuleDiff {
+  const pairs = align(
+    a.lessons,
+    b.lessons,
+    (x) => x.id,
+    () => true,
+    (x, y) => overlap(x.activities.map((t) => t.id), y.activities.map((t) => t.id)) >= SIMILAR,
+  );
+  const lessons: LessonDiff[] = pairs.map((pair) => {
+    const base = node(pair, a.lessons, b.lessons, (x, y) => compareFields(x, y, [["title", "title"]]));
+    const activities = diffActivities(base.a?.activities ?? [], base.b?.activities ?? []);
+    const status = base.status === "same" && activities.some((x) => x.status !== "same" || x.moved) ? "changed" : base.status;
+    return { ...base, status, id: (base.b ?? base.a)!.id, activities };
+  });
+  pairMovedActivities(lessons);
+  const fields = compareHeader(a, b);
+  return { fields, lessons, changes: listChanges(fields, lessons) };
+}
+
+// =============================================================================
+// FLAT CHANGE LIST
+// =============================================================================
+
+function elementName(e: ElementDiff, side: "a" | "b" = e.b ? "b" : "a"): string {
+  if (e.kind === "option") return `option ${((side === "b" ? e.b : e.a) as SelectOption).id}`;
+  return `${e.kind} ${(side === "b" ? e.indexB! : e.indexA!) + 1}`;
+}
+
+function listChanges(header: FieldChange[], lessons: LessonDiff[]): ModuleChange[] {
+  const out: ModuleChange[] = [];
+  const fieldChanges = (at: Omit<ModuleChange, "kind" | "label" | "before" | "after">, fields: FieldChange[]) => {
+    for (const f of fields) out.push({ ...at, kind: "changed", label: f.label, before: f.before, after: f.after });
+  };
+  const structural = (at: Omit<ModuleChange, "kind" | "label" | "before" | "after">, x: NodeDiff<unknown>, was: () => string) => {
+    if (x.status === "added" || x.status === "removed") {
+      out.push({ ...at, kind: x.status, label: null, before: null, after: null });
+      return false;
+    }
+    if (x.moved) out.push({ ...at, kind: "moved", label: was(), before: null, after: null });
+    return true;
+  };
+
+  fieldChanges({ where: "module", lesson: "", activity: null, element: null }, header);
+  for (const lesson of lessons) {
+    const at = { where: lesson.id, lesson: lesson.id, activity: null, element: null };
+    if (!structural(at, lesson, () => `was lesson ${lesson.indexA! + 1}`)) continue;
+    fieldChanges(at, lesson.fields);
+    for (const act of lesson.activities) {
+      const actAt = { ...at, where: `${lesson.id} / ${act.id}`, activity: act.id };
+      const was = () => (act.fromLesson ? `was in ${act.fromLesson}` : `was activity ${act.indexA! + 1}`);
+      if (!structural(actAt, act, was)) continue;
+      fieldChanges(actAt, act.fields);
+      for (const e of act.elements) {
+        const element = elementName(e);
+        const elAt = { ...actAt, where: `${actAt.where} / ${element}`, element };
+        if (!structural(elAt, e, () => `was ${elementName(e, "a")}`)) continue;
+        fieldChanges(elAt, e.fields);
+      }
+    }
+  }
+  return out;
+}
+
+/** The non-empty fields of one side of an element, labelled as in FieldChange. */
+export function elementValues(e: ElementDiff, side: "a" | "b"): { field: string; label: string; value: DiffValue }[] {
+  const x = side === "a" ? e.a : e.b;
+  if (!x) return [];
+  const specs = e.kind === "line" ? LINE_FIELDS : e.kind === "option" ? OPTION_FIELDS : "response" in x ? PRODUCE_ITEM_FIELDS : SELECT_ITEM_FIELDS;
+  return specs
+    .map(([field, label]) => ({ field, label, value: diffValue((x as unknown as Record<string, unknown>)[field]) }))
+    .filter((f) => f.value !== null && f.value !== false);
+}
+
+/** Counts per change kind, for summaries. */
+export function countChanges(diff: ModuleDiff): Record<ModuleChange["kind"], number> {
+  const counts = { added: 0, removed: 0, moved: 0, changed: 0 };
+  for (const c of diff.changes) counts[c.kind]++;
+  return counts;
+}
@@ -0,0 +1,191 @@
+// AUTO-SYNCED COPY — DO NOT EDIT.
+// Canonical source: reactor-module-tools/module-parser/module_grading.ts
+// To update: edit the canonical file, then run `node module-parser/sync.mjs`.
+
+/**
+ * CANONICAL grading for PRODUCE `CHECK: llm` — FORMAT v2.
+ *
+ * This file is synced verbatim to:
+ *   - reactor-module-tools/module-preview/src/module_grading.ts
+ *   - dioco-base/src/modules/module_grading.ts
+ * Edit it HERE and run `node module-parser/sync.mjs`.
+ *
+ * An AnswerGrader judges a learner's answer against an item's RUBRIC (with
+ * RESPONSE / ACCEPT as samples) and returns a verdict with feedback. Two kinds:
+ *
+ *   - createRubricGrader: a deterministic local stand-in, for the preview and
+ *     for offline runs. Phrases quoted in the RUBRIC ("…", “…”, «…») must
+ *     appear in the answer (`a | b` inside the quotes: either one); a rubric
+ *     without quoted phrases falls back to the words of RESPONSE. It is a
+ *     rough check of what a rubric asks for, not a judge of meaning.
+ *   - createModelGrader: asks a language model (buildGradingPrompt), reading
+ *     its JSON reply with parseGradingReply. The caller supplies the model
+ *     call, so this file stays free of API clients and keys; the batch CLI
+ *     (grade-modules.mjs) wires it to Gemini.
+ */
+
+import { checkProduceAnswer, normalizeAnswer } from "./module_answers";
+import type { ProduceItem } from "./module_types";
+
+export type GradeVerdict = "correct" | "partial" | "incorrect";
+
+export interface GradeResult {
+  verdict: GradeVerdict;
+  /** One or two sentences for the learner. */
+  feedback: string;
+}
+
+/** What a grader sees of an item besides the rubric. */
+export type GradableItem = Pick<ProduceItem, "prompt" | "template" | "response" | "accept">;
+
+export interface AnswerGrader {
+  /** Shown next to verdicts ("rubric", "gemini", …). */
+  name: string;
+  grade(item: GradableItem, rubric: string | null, learnerAnswer: string): Promise<GradeResult>;
+}
+
+export const GRADE_VERDICTS: readonly GradeVerdict[] = ["correct", "partial", "incorrect"];
+
+// =============================================================================
+// LOCAL STAND-IN
+// =============================================================================
+
+/** Share of RESPONSE words an answer needs for "correct" / "partial" when the rubric quotes nothing. */
+export const RESPONSE_WORDS_CORRECT = 0.75;
+export const RESPONSE_WORDS_PARTIAL = 0.4;
+
+const QUOTED_RE = /"([^"\n]+)"|“([^”\n]+)”|«\s*([^»\n]+?)\s*»/g;
+
+/** The phrases a rubric quotes, each a list of alternatives. */
+export function rubricPhrases(rubric: string | null): string[][] {
+  const out: string[][] = [];
+  for (const m of (rubric ?? "").matchAll(QUOTED_RE)) {
+    const alternatives = (m[1] ?? m[2] ?? m[3]).split("|").map((s) => s.trim()).filter(Boolean);
+    if (alternatives.length) out.push(alternatives);
+  }
+  return out;
+}
+
+/** `lang` is the module's TARGET_LANG_G, for normalizing answers. */
+export function createRubricGrader(lang: string): AnswerGrader {
+  const norm = (s: string) => normalizeAnswer(s, lang, { ignoreDiacritics: true });
+  const contains = (answer: string, phrase: string) => {
+    const p = norm(phrase);
+    return p !== "" && ` ${answer} `.includes(` ${p} `);
+  };
+
+  return {
+    name: "rubric",
+    async grade(item, rubric, learnerAnswer) {
+      const answer = norm(learnerAnswer);
+      if (!answer) return { verdict: "incorrect", feedback: "No answer given." };
+      if (item.response != null || item.accept?.length) {
+        if (checkProduceAnswer(item, learnerAnswer, lang).verdict === "match") {
+          return { verdict: "correct", feedback: "Matches the model answer." };
+        }
+      }
+
+      const phrases = rubricPhrases(rubric);
+      if (phrases.length) {
+        const missing = phrases.filter((alts) => !alts.some((alt) => contains(answer, alt)));
+        const list = missing.map((alts) => alts.map((a) => `“${a}”`).join(" or ")).join(", ");
+        if (!missing.length) return { verdict: "correct", feedback: "Uses everything the rubric asks for." };
+        if (missing.length < phrases.length) return { verdict: "partial", feedback: `Missing ${list}.` };
+        return { verdict: "incorrect", feedback: `Missing ${list}.` };
+      }
+
+      const words = [...new Set(norm(item.response ?? "").split(" "))].filter((w) => [...w].length > 2);
+      if (!words.length) {
+        return {
+          verdict: "partial",
+          feedback: "Nothing to compare against: the rubric quotes no phrases and there is no RESPONSE.",
+        };
+      }
+      const found = words.filter((w) => contains(answer, w));
+      const share = found.length / words.length;
+      const missing = words.filter((w) => !found.includes(w)).map((w) => `“${w}”`).join(", ");
+      if (share >= RESPONSE_WORDS_CORRECT) return { verdict: "correct", feedback: "Close to the model answer." };
+      if (share >= RESPONSE_WORDS_PARTIAL) return { verdict: "partial", feedback: `Part of the model answer; missing ${missing}.` };
+      return { verdict: "incorrect", feedback: `Far from the model answer; missing ${missing}.` };
+    },
+  };
+}
+
+// =============================================================================
+// MODEL-BACKED
+// =============================================================================
+
+/**
+ * The grading prompt for a language model. `targetLang` / `homeLang` are the
+ * module's TARGET_LANG_G / HOME_LANG_G; feedback is asked for in the home
+ * language.
+ */
+export function buildGradingPrompt(
+  item: GradableItem,
+  rubric: string | null,
+  learnerAnswer: string,
+  targetLang: string,
+  homeLang: string,
+): string {
+  const lines = [
+    `You grade a language learner's answer to an exercise in the language "${targetLang}".`,
+    "",
+    item.prompt != null ? `Prompt: ${item.prompt}` : null,
+    item.template != null ? `On screen: ${item.template}` : null,
+    item.response != null ? `Model answer: ${item.response}` : null,
+    item.accept?.length ? `Also accepted: ${item.accept.join(" | ")}` : null,
+    `Rubric: ${rubric ?? "(none; judge against the model answer)"}`,
+    "",
+    `Learner's answer: ${learnerAnswer}`,
+    "",
+    "Judge by the rubric, not by closeness to the model answer: other wordings that meet it are correct.",
+    `"partial" means understandable but missing or breaking something the rubric asks for.`,
+    `Reply with JSON only: {"verdict": "correct" | "partial" | "incorrect", "feedback": "<one or two sentences to the learner, in the language \"${homeLang}\">"}`,
+  ];
+  return lines.filter((l) => l != null).join("\n");
+}
+
+// A labelled verdict outside JSON: `Verdict: partial`, `**Verdict:** "correct"`.
+const VERDICT_LABEL_RE = /\bverdict\b[\s*_"'`]*[:=][\s*_"'`]*(correct|partial|incorrect)\b/i;
+
+/**
+ * Read a model's reply to buildGradingPrompt: the JSON it was asked for, else
+ * an explicit `verdict:` label. Throws otherwise — a verdict word somewhere in
+ * prose ("not correct", "is this correct?") is not a verdict.
+ */
+export function parseGradingReply(reply: string): GradeResult {
+  const body = reply.trim().replace(/^```[^\n]*\n/, "").replace(/\n?```\s*$/, "");
+  const json = body.match(/\{[\s\S]*\}/)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json) as { verdict?: unknown; feedback?: unknown };
+      const verdict = String(parsed.verdict ?? "").toLowerCase() as GradeVerdict;
+      if (GRADE_VERDICTS.includes(verdict)) {
+        return { verdict, feedback: typeof parsed.feedback === "string" ? parsed.feedback.trim() : "" };
+      }
+    } catch {
+      // fall through to the labelled reading
+    }
+  }
+  const label = body.match(VERDICT_LABEL_RE)?.[1];
+  if (!label) throw new Error(`grader reply has no verdict: ${reply.slice(0, 200)}`);
+  return { verdict: label.toLowerCase() as GradeVerdict, feedback: "" };
+}
+
+/**
+ * A grader backed by a language model. `complete` sends a prompt and resolves
+ * to the model's text reply (e.g. lib/gemini-api.js `callGemini`).
+ */
+export function createModelGrader(
+  complete: (prompt: string) => Promise<string>,
+  options: { name: string; targetLang: string; homeLang: string },
+): AnswerGrader {
+  return {
+    name: options.name,
+    async grade(item, rubric, learnerAnswer) {
+      if (!learnerAnswer.trim()) return { verdict: "incorrect", feedback: "No answer given." };
+      const prompt = buildGradingPrompt(item, rubric, learnerAnswer, options.targetLang, options.homeLang);
+      return parseGradingReply(await complete(prompt));
+    },
+  };
+}
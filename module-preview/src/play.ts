@@ -0,0 +1,415 @@
+import type { Activity, DialogueActivity, SelectActivity, SelectOption, ProduceActivity } from './lc_types';
+import { el, clear, type ElChild } from './dom';
+import { checkProduceAnswer, type AnswerCheck } from './module_answers';
+import { createRubricGrader, type GradeResult } from './module_grading';
+
+/**
+ * Learner "play mode": runs one DIALOGUE / SELECT / PRODUCE activity card by
+ * card the way the app presents it, instead of the review tables.
+ *
+ *   - a spoken PROMPT stays hidden until the item is answered, unless
+ *     SHOW_PROMPT is set (EXAMPLE items are shown worked out);
+ *   - SELECT takes taps (MULTI: toggle several, then Check);
+ *   - PRODUCE takes typed input checked against RESPONSE / ACCEPT for
+ *     `CHECK: exact` (module_answers.ts: a near-miss shows as "almost", with
+ *     a word diff, and does not score); `llm` answers go to the local rubric
+ *     grader (module_grading.ts), standing in for the app's model; `reveal`
+ *     reveals the model answer and the learner marks themselves;
+ *   - REPEAT adds a say-it-back beat after each answer / dialogue line;
+ *   - a score summary closes the activity.
+ *
+ * Assets are not loaded in the preview; clips show as their file name.
+ */
+
+type Outcome = 'correct' | 'near-miss' | 'incorrect' | 'example';
+
+interface ItemResult {
+    label: string;
+    outcome: Outcome;
+}
+
+const OUTCOME_MARK: Record<Outcome, string> = { correct: '✓', 'near-miss': '≈', incorrect: '✗', example: 'EX' };
+
+// What the card for the current step shows.
+type Phase = 'ask' | 'answered' | 'repeat';
+
+export function canPlay(activity: Activity): boolean {
+    return activity.type === 'DIALOGUE' || activity.type === 'SELECT' || activity.type === 'PRODUCE';
+}
+
+/** `lang` is the module's TARGET_LANG_G, for answer checking. */
+export function renderPlayer(activity: Activity, lang: string, onExit: () => void): HTMLElement {
+    const root = el('div', { class: 'player' });
+    let index = 0;
+    let phase: Phase = 'ask';
+    // Per run, indexed by item: results, SELECT taps, PRODUCE input, revealed answers.
+    let results: ItemResult[] = [];
+    let pickedIds: string[][] = [];
+    let typedAnswers: (string | null)[] = [];
+    let checks: AnswerCheck[] = [];
+    let grades: GradeResult[] = [];
+    let revealed: boolean[] = [];
+
+    const steps =
+        activity.type === 'DIALOGUE'
+            ? (activity as DialogueActivity).lines.length
+            : activity.type === 'SELECT'
+              ? (activity as SelectActivity).items.length
+              : activity.type === 'PRODUCE'
+                ? (activity as ProduceActivity).items.length
+                : 0;
+
+    const next = () => {
+        index++;
+        phase = 'ask';
+        show();
+    };
+    // After an answer / dialogue line: the REPEAT beat (if any), then the next card.
+    const advance = () => {
+        if (phase !== 'repeat' && (activity as SelectActivity | ProduceActivity | DialogueActivity).repeat) {
+            phase = 'repeat';
+            show();
+        } else next();
+    };
+    const record = (label: string, outcome: Outcome) => {
+        results[index] = { label, outcome };
+        phase = 'answered';
+        show();
+    };
+    const restart = () => {
+        index = 0;
+        phase = 'ask';
+        results = [];
+        pickedIds = [];
+        typedAnswers = [];
+        checks = [];
+        grades = [];
+        revealed = [];
+        show();
+    };
+
+    function show() {
+        clear(root);
+        const instruction = (activity as SelectActivity).instruction;
+        root.appendChild(
+            el('div', { class: 'playTop' }, [
+                el('span', { class: 'playProgress mono' }, [index < steps ? `${index + 1} / ${steps}` : `${steps} / ${steps}`]),
+                instruction ? el('div', { class: 'playInstruction' }, [instruction]) : null,
+                el('button', { class: 'toolBtn mono', type: 'button', onclick: onExit }, ['Exit']),
+            ])
+        );
+        if (index === 0 && phase === 'ask' && activity.intro) {
+            root.appendChild(el('div', { class: 'playIntro' }, [spoken('INTRO'), ` ${activity.intro}`]));
+        }
+        if (index >= steps) {
+            root.appendChild(renderSummary(activity, results, restart, onExit));
+            return;
+        }
+        if (activity.type === 'DIALOGUE') root.appendChild(dialogueCard(activity as DialogueActivity));
+        else if (activity.type === 'SELECT') root.appendChild(selectCard(activity as SelectActivity));
+        else root.appendChild(produceCard(activity as ProduceActivity));
+    }
+
+    function dialogueCard(a: DialogueActivity): HTMLElement {
+        const line = a.lines[index];
+        const card = el('div', { class: 'playCard' }, [
+            line.speaker ? el('div', { class: 'speaker' }, [line.speaker]) : null,
+            line.image ? asset('IMAGE', line.image) : null,
+            el('div', { class: 'targetText' }, [line.text]),
+            line.audio ? asset('AUDIO', line.audio) : null,
+            line.notes ? el('div', { class: 'notes' }, [line.notes]) : null,
+        ]);
+        if (phase === 'repeat') {
+            card.appendChild(repeatBeat(line.text));
+            card.appendChild(actions([button('Done', next, true)]));
+        } else {
+            card.appendChild(actions([button('Next', advance, true)]));
+        }
+        return card;
+    }
+
+    function selectCard(a: SelectActivity): HTMLElement {
+        const item = a.items[index];
+        const options = item.options?.length ? item.options : a.options;
+        const answer = new Set(item.answer);
+        const done = phase !== 'ask' || item.isExample;
+        const result = results[index];
+        const picked = new Set<string>(pickedIds[index] ?? []);
+        const correctText = options
+            .filter((o) => answer.has(o.id))
+            .map(optionLabel)
+            .join(', ');
+
+        const card = el('div', { class: `playCard${item.isExample ? ' example' : ''}` }, [
+            item.isExample ? el('div', { class: 'example-badge' }, ['Example']) : null,
+            stimulus(item, a.showPrompt || done),
+        ]);
+
+        const submit = () => {
+            pickedIds[index] = [...picked];
+            const ok = picked.size === answer.size && [...picked].every((id) => answer.has(id));
+            record(correctText || item.answer.join(', '), ok ? 'correct' : 'incorrect');
+        };
+
+        const list = el('div', { class: 'playOptions' });
+        for (const o of options) {
+            let cls = 'playOption';
+            if (done && answer.has(o.id)) cls += ' correct';
+            if (done && picked.has(o.id) && !answer.has(o.id)) cls += ' wrong';
+            if (!done && picked.has(o.id)) cls += ' picked';
+            list.appendChild(
+                el(
+                    'button',
+                    {
+                        class: cls,
+                        type: 'button',
+                        disabled: done,
+                        onclick: () => {
+                            if (!a.multi) {
+                                picked.clear();
+                                picked.add(o.id);
+                                submit();
+                                return;
+                            }
+                            if (picked.has(o.id)) picked.delete(o.id);
+                            else picked.add(o.id);
+                            pickedIds[index] = [...picked];
+                            show();
+                        },
+                    },
+                    [el('b', { class: 'mono' }, [o.id]), ` ${optionLabel(o)}`, o.audio ? el('span', { class: 'muted mono' }, [` 🔊 ${o.audio}`]) : null]
+                )
+            );
+        }
+        card.appendChild(list);
+
+        if (phase === 'repeat') {
+            card.appendChild(repeatBeat(correctText));
+            card.appendChild(actions([button('Done', next, true)]));
+        } else if (item.isExample) {
+            if (!result) results[index] = { label: correctText, outcome: 'example' };
+            card.appendChild(actions([button('Next', advance, true)]));
+        } else if (phase === 'answered') {
+            card.appendChild(verdict(result.outcome === 'correct', result.outcome === 'correct' ? null : `Answer: ${correctText}`));
+            if (item.feedback) card.appendChild(el('div', { class: 'notes' }, [item.feedback]));
+            card.appendChild(actions([button('Next', advance, true)]));
+        } else if (a.multi) {
+            card.appendChild(el('div', { class: 'muted playHint' }, ['Select all that apply.']));
+            card.appendChild(actions([button('Check', submit, true, picked.size === 0)]));
+        }
+        return card;
+    }
+
+    function produceCard(a: ProduceActivity): HTMLElement {
+        const item = a.items[index];
+        const done = phase !== 'ask' || item.isExample || revealed[index];
+        const result = results[index];
+        const model = item.response ?? '';
+        // The app shows a typed field for checkable items; spoken answers are self-checked.
+        const typed = a.check === 'exact' || a.check === 'llm';
+
+        const card = el('div', { class: `playCard${item.isExample ? ' example' : ''}` }, [
+            item.isExample ? el('div', { class: 'example-badge' }, ['Example']) : null,
+            stimulus(item, a.showPrompt || done),
+        ]);
+
+        const modelAnswer = () =>
+            el('div', { class: 'playModel' }, [
+                el('span', { class: 'k' }, ['RESPONSE']),
+                ' ',
+                model || el('span', { class: 'muted' }, ['(open answer)']),
+                item.responseAudio ? asset('AUDIO', item.responseAudio) : null,
+                item.accept?.length ? el('div', { class: 'muted' }, [`Also accepted: ${item.accept.join(' | ')}`]) : null,
+                a.check === 'llm' && item.rubric ? el('div', { class: 'muted' }, [`Rubric: ${item.rubric}`]) : null,
+            ]);
+
+        const typedAnswer = () =>
+            el('div', { class: 'playTyped' }, [el('span', { class: 'k' }, ['YOU']), ' ', typedAnswers[index] || '—']);
+
+        if (phase === 'repeat') {
+            card.appendChild(repeatBeat(model));
+            card.appendChild(actions([button('Done', next, true)]));
+            return card;
+        }
+        if (item.isExample) {
+            if (!result) results[index] = { label: model, outcome: 'example' };
+            card.appendChild(modelAnswer());
+            card.appendChild(actions([button('Next', advance, true)]));
+            return card;
+        }
+        if (phase === 'answered') {
+            if (typedAnswers[index] != null) card.appendChild(typedAnswer());
+            if (checks[index]) card.appendChild(answerVerdict(checks[index]));
+            if (grades[index]) card.appendChild(gradeVerdict(grades[index]));
+            card.appendChild(modelAnswer());
+            card.appendChild(actions([button('Next', advance, true)]));
+            return card;
+        }
+        if (revealed[index]) {
+            // reveal: the learner marks themselves.
+            if (typedAnswers[index] != null) card.appendChild(typedAnswer());
+            card.appendChild(modelAnswer());
+            card.appendChild(
+                actions([
+                    button('I got it', () => record(model, 'correct'), true),
+                    button('I missed it', () => record(model, 'incorrect')),
+                ])
+            );
+            return card;
+        }
+
+        if (typed) {
+            const input = el('input', {
+                class: 'playInput',
+                type: 'text',
+                placeholder: a.input === 'speak' ? 'Type what you would say…' : 'Type your answer…',
+                autocomplete: 'off',
+            });
+            const check = () => {
+                typedAnswers[index] = input.value;
+                if (a.check === 'exact') {
+                    const check = (checks[index] = checkProduceAnswer(item, input.value, lang));
+                    record(model, check.verdict === 'match' ? 'correct' : check.verdict === 'near-miss' ? 'near-miss' : 'incorrect');
+                } else {
+                    // llm: the app asks the model; the preview grades with the local rubric stand-in.
+                    void createRubricGrader(lang)
+                        .grade(item, item.rubric, input.value)
+                        .then((grade) => {
+                            grades[index] = grade;
+                            record(model, grade.verdict === 'correct' ? 'correct' : grade.verdict === 'partial' ? 'near-miss' : 'incorrect');
+                        });
+                }
+            };
+            input.onkeydown = (ev: KeyboardEvent) => {
+                if (ev.key === 'Enter') check();
+            };
+            card.appendChild(input);
+            card.appendChild(actions([button('Check', check, true)]));
+            window.setTimeout(() => input.focus(), 0);
+        } else {
+            card.appendChild(
+                actions([
+                    button(
+                        'Reveal',
+                        () => {
+                            revealed[index] = true;
+                            show();
+                        },
+                        true
+                    ),
+                ])
+            );
+        }
+        return card;
+    }
+
+    show();
+    return root;
+}
+
+function renderSummary(activity: Activity, results: ItemResult[], onRestart: () => void, onExit: () => void): HTMLElement {
+    const scored = results.filter((r) => r && r.outcome !== 'example');
+    const correct = scored.filter((r) => r.outcome === 'correct').length;
+    const headline =
+        activity.type === 'DIALOGUE'
+            ? `${(activity as DialogueActivity).lines.length} lines`
+            : scored.length
+              ? `Score: ${correct} / ${scored.length} (${Math.round((100 * correct) / scored.length)}%)`
+              : 'No scored items';
+    return el('div', { class: 'playCard playSummary' }, [
+        el('div', { class: 'playScore' }, [headline]),
+        activity.type === 'DIALOGUE'
+            ? null
+            : el(
+                  'ol',
+                  { class: 'playResults' },
+                  results.map((r) =>
+                      el('li', { class: `playResult ${r.outcome}` }, [
+                          OUTCOME_MARK[r.outcome],
+                          ' ',
+                          r.label || '—',
+                      ])
+                  )
+              ),
+        actions([button('Play again', onRestart, true), button('Back to review', onExit)]),
+    ]);
+}
+
+// PROMPT / TEMPLATE / image / clip of a SELECT or PRODUCE item. TEMPLATE is
+// on-screen text and always shown; a spoken PROMPT only when `showPrompt`.
+function stimulus(
+    item: { prompt: string | null; template: string | null; promptImage: string | null; audio: string | null },
+    showPrompt: boolean
+): HTMLElement {
+    return el('div', { class: 'playStimulus' }, [
+        item.promptImage ? asset('IMAGE', item.promptImage) : null,
+        item.audio ? asset('AUDIO', item.audio) : null,
+        item.prompt != null
+            ? showPrompt
+                ? el('div', { class: 'targetText' }, [item.prompt])
+                : el('div', { class: 'playHidden' }, [spoken('PROMPT'), ' text hidden until answered'])
+            : null,
+        item.template != null ? el('div', { class: 'targetText playTemplate' }, [item.template]) : null,
+    ]);
+}
+
+function repeatBeat(text: string): HTMLElement {
+    return el('div', { class: 'playRepeat' }, [el('span', { class: 'pill' }, ['REPEAT']), ' Say it back: ', el('b', {}, [text])]);
+}
+
+function verdict(ok: boolean, detail: string | null): HTMLElement {
+    return el('div', { class: `playVerdict ${ok ? 'correct' : 'incorrect'}` }, [ok ? '✓ Correct' : '✗ Not quite', detail ? ` — ${detail}` : '']);
+}
+
+// `CHECK: exact` result: a near-miss says why, and a miss shows the word diff
+// from what was typed to the closest accepted answer.
+function answerVerdict(check: AnswerCheck): HTMLElement {
+    if (check.verdict === 'match') return verdict(true, null);
+    const diff = check.diff.length
+        ? el(
+              'div',
+              { class: 'playDiff mono' },
+              check.diff.map((part) => el('span', { class: `diff-${part.op}` }, [part.text]))
+          )
+        : null;
+    if (check.verdict === 'near-miss') {
+        const why = check.reason === 'diacritics' ? 'check the accents' : 'check the spelling';
+        return el('div', { class: 'playVerdict near-miss' }, [`≈ Almost — ${why}`, diff]);
+    }
+    return el('div', { class: 'playVerdict incorrect' }, ['✗ Not quite', diff]);
+}
+
+// `CHECK: llm` result from the local rubric grader (module_grading.ts).
+function gradeVerdict(grade: GradeResult): HTMLElement {
+    const [cls, text] =
+        grade.verdict === 'correct'
+            ? ['correct', '✓ Correct']
+            : grade.verdict === 'partial'
+              ? ['near-miss', '≈ Partly']
+              : ['incorrect', '✗ Not quite'];
+    return el('div', { class: `playVerdict ${cls}` }, [
+        text,
+        grade.feedback ? ` — ${grade.feedback}` : '',
+        el('div', { class: 'muted playGrader' }, ['local rubric check; the app grades with the model']),
+    ]);
+}
+
+function spoken(label: string): HTMLElement {
+    return el('span', { class: 'pill mono' }, [`🔊 ${label}`]);
+}
+
+function asset(label: string, file: string): HTMLElement {
+    return el('div', { class: 'playAsset muted mono' }, [`${label === 'AUDIO' ? '🔊' : '🖼'} ${file}`]);
+}
+
+function optionLabel(o: SelectOption): string {
+    return o.text ?? o.image ?? '';
+}
+
+function button(label: string, onclick: () => void, primary = false, disabled = false): HTMLElement {
+    return el('button', { class: primary ? 'playBtn primary' : 'playBtn', type: 'button', onclick, disabled }, [label]);
+}
+
+function actions(children: ElChild[]): HTMLElement {
+    return el('div', { class: 'playActions' }, children);
+}
@@ -1,71 +1,35 @@
+import { parseModuleCst } from './module_cst';
+
 export type RawBlock = {
     startLine: number; // 1-based
     endLine: number; // 1-based, inclusive
     text: string;
 };
 
-function slug(s: string): string {
-    return s
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-|-$/g, '');
-}
-
-function generateActivityId(type: string, title: string): string {
-    // Match lc_parser.ts: it slugs the whole `${type}-${title}` (type is lowercased too).
-    return slug(`${type}-${title || 'untitled'}`);
-}
-
 /**
- * Best-effort: split the raw module file into activity blocks.
- * A block starts at `$DIALOGUE/$GRAMMAR/$SELECT/$PRODUCE/$CHAT` and ends right before the next `$...` marker.
+ * Split the raw module file into activity blocks, using the shared CST's
+ * activity ranges (the same scoping the parser and linter use).
+ * A block starts at `$DIALOGUE/$GRAMMAR/$SELECT/$PRODUCE/$CHAT` and ends right before
+ * the next `$LESSON` / activity / `$MODULE` marker.
  *
- * Keys are activity ids matching `lc_parser.ts`'s `generateActivityId(type, title)`.
+ * Keys are the activity ids the parser assigns.
  */
 export function buildActivityRawIndex(text: string): Record<string, RawBlock> {
-    const lines = String(text ?? '').split('\n');
+    const cst = parseModuleCst(text);
     const map: Record<string, RawBlock> = {};
 
-    let current: { id: string; startIdx: number } | null = null;
-
-    function close(endIdxInclusive: number) {
-        if (!current) return;
-        const startLine = current.startIdx + 1;
-        const endLine = endIdxInclusive + 1;
-        map[current.id] = {
-            startLine,
-            endLine,
-            text: lines.slice(current.startIdx, endIdxInclusive + 1).join('\n'),
-        };
-        current = null;
-    }
-
-    for (let i = 0; i < lines.length; i++) {
-        const raw = lines[i];
-        const trimmedEnd = raw.trimEnd();
-
-        // Only markers at column 0
-        if (!trimmedEnd.startsWith('$')) continue;
-
-        // Starting a new marker closes any currently open activity.
-        if (current) close(i - 1);
-
-        const m = trimmedEnd.match(/^\$(\w+)(?:\s+(.*))?$/);
-        if (!m) continue;
-        const marker = m[1];
-        const title = (m[2] ?? '').trim();
-
-        if (marker === 'DIALOGUE' || marker === 'GRAMMAR' || marker === 'SELECT' || marker === 'PRODUCE' || marker === 'CHAT') {
-            current = { id: generateActivityId(marker, title || marker), startIdx: i };
-        } else {
-            // $MODULE / $LESSON / unknown marker: not an activity block start.
+    for (const lesson of cst.lessons) {
+        for (const a of lesson.activities) {
+            map[a.id] = {
+                startLine: a.startLine,
+                endLine: a.endLine,
+                text: cst.lines
+                    .slice(a.startLine - 1, a.endLine)
+                    .map((l) => l.text)
+                    .join('\n'),
+            };
         }
     }
 
-    // Close trailing activity block
-    if (current) close(lines.length - 1);
-
     return map;
 }
-
-
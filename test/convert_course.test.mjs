@@ -0,0 +1,83 @@
+// module-convert/convert-course.js repair rounds, recorded then replayed: a
+// dropped (regressing) reply keeps the previous module, and the next round is a
+// different request, so every reply gets its own cassette and replay follows
+// the same path without the network.
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { convertCourse } from '../module-convert/convert-course.js';
+
+const HEADER = '$MODULE T\nFORMAT: 2\nTARGET_LANG_G: fr\nHOME_LANG_G: en\n\n$LESSON One\n\n$DIALOGUE Hi\nREPEAT\n\nLINE: Bonjour.\n\n';
+const SELECT = 'PROMPT: Le chat\nOPTION: a | cat\nOPTION: b | dog\nANSWER: a\n';
+const REPLIES = [
+  `${HEADER}$SELECT: Choose\n\n${SELECT}`, // section-colon error
+  HEADER, // "fixes" it by dropping the activity: a regression
+  `${HEADER}$SELECT Choose\n\n${SELECT}`,
+];
+
+let dir;
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'convert-course-'));
+  fs.mkdirSync(path.join(dir, 'md'));
+  fs.writeFileSync(path.join(dir, 'md', 'a.md'), '# Lesson\n\nBonjour.\n');
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+async function convert(mode, replies) {
+  fs.rmSync(path.join(dir, 'out'), { recursive: true, force: true });
+  const config = path.join(dir, 'config.json');
+  fs.writeFileSync(config, JSON.stringify({
+    courseName: 'T',
+    inputDir: 'md',
+    outputDir: 'out',
+    delayBetweenRequests: 1,
+    repairRounds: 2,
+    modelProvider: { mode, cassettes: 'cassettes' },
+  }));
+  const fetch = mock.method(globalThis, 'fetch', async () => {
+    const content = replies.shift();
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+  });
+  const log = mock.method(console, 'log', () => {});
+  const argv = process.argv;
+  process.argv = [argv[0], 'convert-course.js', '--config', config];
+  try {
+    await convertCourse();
+  } finally {
+    process.argv = argv;
+    mock.restoreAll();
+  }
+  const read = (name) => {
+    const file = path.join(dir, 'out', name);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+  };
+  return { fetches: fetch.mock.callCount(), log: log.mock.calls.map((c) => c.arguments.join(' ')), read };
+}
+
+test('record: a dropped repair round, then a different request', async () => {
+  const run = await convert('record', [...REPLIES]);
+  assert.equal(run.fetches, 3);
+  assert.equal(run.read('a.error.txt'), null);
+  assert.equal(run.read('a.module'), REPLIES[2].trim());
+  assert.match(run.read('a.lint.txt'), /^0 error\(s\), .* after 2 repair round\(s\)\.$/m);
+  assert.ok(run.log.some((l) => /Repair round 1 dropped: 2 section\(s\), down from 3/.test(l)));
+
+  const cassettes = fs.readdirSync(path.join(dir, 'cassettes'))
+    .map((f) => JSON.parse(fs.readFileSync(path.join(dir, 'cassettes', f), 'utf-8')))
+    .sort((x, y) => x.request.messages.length - y.request.messages.length);
+  assert.equal(cassettes.length, 3, 'one cassette per reply');
+  const last = cassettes[2].request.messages.at(-1).content;
+  assert.match(last, /^Your last reply was discarded \(2 section\(s\), down from 3\)/);
+  assert.equal(cassettes[2].request.messages.at(-2).content, REPLIES[1].trim(), 'the dropped reply stays in the conversation');
+});
+
+test('replay: the same rounds and output, without the network', async () => {
+  const recorded = fs.readFileSync(path.join(dir, 'out', 'a.module'), 'utf-8');
+  const run = await convert('replay', []);
+  assert.equal(run.fetches, 0);
+  assert.equal(run.read('a.error.txt'), null);
+  assert.equal(run.read('a.module'), recorded);
+  assert.match(run.read('a.lint.txt'), /^0 error\(s\), .* after 2 repair round\(s\)\.$/m);
+});
@@ -0,0 +1,117 @@
+// lib/model-provider.js through lib/gemini-api.js callGemini: cassette keys,
+// record → replay, replay misses and the scripted fake. The network is a mocked
+// fetch; replay and fake must never reach it.
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { callGemini } from '../lib/gemini-api.js';
+import {
+  createFakeProvider,
+  createModelProvider,
+  modelProviderFromConfig,
+  requestKey,
+} from '../lib/model-provider.js';
+
+let cassettes;
+let fetchMock;
+
+beforeEach(() => {
+  cassettes = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+  fetchMock = mock.method(globalThis, 'fetch', async () =>
+    new Response(JSON.stringify({ choices: [{ message: { content: ' live reply \n' } }] }), { status: 200 }),
+  );
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  fs.rmSync(cassettes, { recursive: true, force: true });
+});
+
+test('requestKey', async (t) => {
+  await t.test('ignores key order and undefined values', () => {
+    assert.equal(requestKey({ a: 1, b: { c: [1, 2], d: 'x' } }), requestKey({ b: { d: 'x', c: [1, 2] }, a: 1, e: undefined }));
+  });
+  await t.test('is a sha256 hex digest', () => {
+    assert.match(requestKey({ a: 1 }), /^[0-9a-f]{64}$/);
+  });
+  await t.test('changes with any value', () => {
+    const keys = [{ a: 1 }, { a: 2 }, { a: '1' }, { a: [1] }, { b: 1 }, { a: null }].map(requestKey);
+    assert.equal(new Set(keys).size, keys.length);
+  });
+});
+
+test('record, then replay without the network', async () => {
+  const options = { model: 'm', systemPrompt: 'sys', history: [{ role: 'user', content: 'earlier' }] };
+
+  const record = createModelProvider({ mode: 'record', cassettes });
+  assert.equal(await callGemini('Hello', { ...options, provider: record }), 'live reply');
+  assert.equal(fetchMock.mock.callCount(), 1);
+  const files = fs.readdirSync(cassettes);
+  assert.equal(files.length, 1);
+  const cassette = JSON.parse(fs.readFileSync(path.join(cassettes, files[0]), 'utf-8'));
+  assert.equal(`${cassette.key}.json`, files[0]);
+  assert.equal(cassette.response, 'live reply');
+  assert.deepEqual(cassette.request.messages.map((m) => m.content), ['sys', 'earlier', 'Hello']);
+
+  const replay = createModelProvider({ mode: 'replay', cassettes });
+  assert.equal(replay.offline, true);
+  assert.equal(await callGemini('Hello', { ...options, provider: replay }), 'live reply');
+  assert.equal(fetchMock.mock.callCount(), 1, 'replay does not fetch');
+});
+
+test('replay: a request without a cassette is an error', async () => {
+  const record = createModelProvider({ mode: 'record', cassettes });
+  await callGemini('Hello', { provider: record });
+  const replay = createModelProvider({ mode: 'replay', cassettes });
+  await assert.rejects(callGemini('Hello?', { provider: replay }), /No cassette for this request/);
+  await assert.rejects(callGemini('Hello', { provider: replay, temperature: 0.9 }), /No cassette for this request/);
+  assert.equal(fetchMock.mock.callCount(), 1);
+});
+
+test('fake: scripted replies in call order, requests collected', async () => {
+  const fake = createFakeProvider(['first', new Error('quota'), 'third']);
+  assert.equal(await callGemini('one', { provider: fake }), 'first');
+  await assert.rejects(callGemini('two', { provider: fake }), /quota/);
+  assert.equal(await callGemini('three', { provider: fake, history: [{ role: 'user', content: 'one' }] }), 'third');
+  await assert.rejects(callGemini('four', { provider: fake }), /no reply for call 4/);
+  assert.deepEqual(fake.calls.map((r) => r.messages.map((m) => m.content)), [['one'], ['two'], ['one', 'three'], ['four']]);
+  assert.equal(fetchMock.mock.callCount(), 0);
+});
+
+test('fake: a function script sees the request and its index', async () => {
+  const fake = createFakeProvider((request, index) => `${index}:${request.messages.at(-1).content}`);
+  assert.equal(await callGemini('a', { provider: fake }), '0:a');
+  assert.equal(await callGemini('b', { provider: fake }), '1:b');
+});
+
+test('createModelProvider rejects bad settings', () => {
+  assert.throws(() => createModelProvider({ mode: 'tape' }), /Unknown model provider mode "tape"/);
+  assert.throws(() => createModelProvider({ mode: 'replay' }), /needs a cassettes directory/);
+  assert.equal(createModelProvider().mode, 'live');
+});
+
+test('modelProviderFromConfig: environment over config', async (t) => {
+  const saved = { mode: process.env.MODEL_PROVIDER, cassettes: process.env.MODEL_CASSETTES };
+  t.after(() => {
+    for (const [k, v] of [['MODEL_PROVIDER', saved.mode], ['MODEL_CASSETTES', saved.cassettes]]) {
+      if (v === undefined) delete process.env[k];
+      else process.env[k] = v;
+    }
+  });
+  delete process.env.MODEL_PROVIDER;
+  delete process.env.MODEL_CASSETTES;
+
+  assert.equal(modelProviderFromConfig(null).mode, 'live');
+  // A relative config path resolves against baseDir: this replays from `cassettes`.
+  const fromConfig = modelProviderFromConfig({ mode: 'replay', cassettes: path.basename(cassettes) }, path.dirname(cassettes));
+  assert.equal(fromConfig.mode, 'replay');
+
+  process.env.MODEL_PROVIDER = 'record';
+  process.env.MODEL_CASSETTES = cassettes;
+  const fromEnv = modelProviderFromConfig({ mode: 'replay', cassettes: 'elsewhere' }, '/nonexistent');
+  assert.equal(fromEnv.mode, 'record');
+  await callGemini('Hi', { provider: fromEnv });
+  assert.equal(fs.readdirSync(cassettes).length, 1, 'records into MODEL_CASSETTES');
+});
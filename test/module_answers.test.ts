@@ -0,0 +1,83 @@
+// normalizeAnswer / checkProduceAnswer: the `CHECK: exact` contract every app
+// that checks PRODUCE answers shares (module_answers.ts).
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkProduceAnswer, normalizeAnswer } from "../module-parser/module_answers";
+
+test("normalizeAnswer", async (t) => {
+  const cases: [string, string, string, string][] = [
+    // [name, lang, input, normalized]
+    ["case, punctuation and spacing", "en", "  Hello,   World! ", "hello world"],
+    ["contraction n't", "en", "I don't know.", "i do not know"],
+    ["contraction can't", "en", "You can't", "you cannot"],
+    ["can not = cannot", "en", "You can not", "you cannot"],
+    ["contraction won't", "en", "It won't rain", "it will not rain"],
+    ["contraction I'm", "en", "I'm here", "i am here"],
+    ["contraction it's", "en", "It's late", "it is late"],
+    ["contractions 're / 've / 'll", "en", "We're sure they've left, you'll see", "we are sure they have left you will see"],
+    ["German 's", "de", "Wie geht's?", "wie geht es"],
+    ["no contractions for French", "fr", "L'homme est là.", "l'homme est là"],
+    ["curly apostrophe", "en", "don’t", "do not"],
+    ["backtick and prime apostrophes", "en", "o`clock o′clock", "o'clock o'clock"],
+    ["word-internal apostrophe kept", "en", "five o'clock", "five o'clock"],
+    ["quoting apostrophes dropped", "en", "'yes'", "yes"],
+    ["hyphen splits words", "en", "twenty-one", "twenty one"],
+    ["Turkish dotted capital I", "tr", "İstanbul", "istanbul"],
+    ["Turkish dotless capital I", "tr", "IRMAK", "ırmak"],
+    ["Turkish casing with a region tag", "tr-TR", "KIŞ", "kış"],
+    ["English I stays i", "en", "IRMAK", "irmak"],
+    ["unknown locale falls back", "not a locale!", "ABC", "abc"],
+    ["NFC: decomposed é", "fr", "cafe\u0301", "caf\u00e9"],
+    ["accents kept by default", "fr", "Élève", "élève"],
+  ];
+  for (const [name, lang, input, expected] of cases) {
+    await t.test(name, () => assert.equal(normalizeAnswer(input, lang), expected));
+  }
+
+  await t.test("ignoreDiacritics drops accents", () => {
+    assert.equal(normalizeAnswer("Élève über", "fr", { ignoreDiacritics: true }), "eleve uber");
+  });
+});
+
+const item = (response: string | null, ...accept: string[]) => ({ response, accept });
+
+test("checkProduceAnswer", async (t) => {
+  const know = item("I don't know.", "I have no idea");
+  const cases: [string, ReturnType<typeof item>, string, string, object][] = [
+    // [name, item, lang, input, expected (subset of the AnswerCheck)]
+    ["match: contraction vs long form", know, "en", "i do not know", { verdict: "match", expected: "I don't know.", reason: null }],
+    ["match: ACCEPT", know, "en", "I have no idea!", { verdict: "match", expected: "I have no idea" }],
+    ["match: curly apostrophe", know, "en", "I don’t know", { verdict: "match" }],
+    ["near-miss: typo", know, "en", "I dont know", { verdict: "near-miss", reason: "typo", expected: "I don't know." }],
+    ["wrong: other words", know, "en", "I know everything", { verdict: "wrong", reason: null, expected: "I don't know." }],
+    ["wrong: empty input", know, "en", "", { verdict: "wrong" }],
+    ["match: Turkish casing", item("İyi günler"), "tr", "iyi GÜNLER", { verdict: "match" }],
+    ["near-miss: Turkish I is not i", item("Irmak"), "tr", "irmak", { verdict: "near-miss", reason: "typo" }],
+    ["near-miss: only accents differ", item("Très bien"), "fr", "tres bien", { verdict: "near-miss", reason: "diacritics", expected: "Très bien" }],
+    ["near-miss: accents on a long answer", item("Je suis allé à la bibliothèque"), "fr", "je suis alle a la bibliotheque", { verdict: "near-miss", reason: "diacritics" }],
+    ["null RESPONSE with ACCEPT", item(null, "oui"), "fr", "Oui", { verdict: "match", expected: "oui" }],
+    ["null RESPONSE, no ACCEPT: matches nothing", item(null), "fr", "oui", { verdict: "wrong", expected: null, reason: null }],
+  ];
+  for (const [name, it, lang, input, expected] of cases) {
+    await t.test(name, () => {
+      const got = checkProduceAnswer(it, input, lang);
+      assert.deepEqual(
+        Object.fromEntries(Object.keys(expected).map((k) => [k, got[k as keyof typeof got]])),
+        expected,
+      );
+    });
+  }
+
+  await t.test("ignoreDiacritics turns an accent near-miss into a match", () => {
+    assert.equal(checkProduceAnswer(item("Très bien"), "tres bien", "fr", { ignoreDiacritics: true }).verdict, "match");
+  });
+
+  await t.test("diff lists missing and extra words", () => {
+    assert.deepEqual(checkProduceAnswer(item("I am very tired"), "I am tired now", "en").diff, [
+      { op: "equal", text: "i am" },
+      { op: "missing", text: "very" },
+      { op: "equal", text: "tired" },
+      { op: "extra", text: "now" },
+    ]);
+  });
+});
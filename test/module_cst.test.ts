@@ -0,0 +1,129 @@
+// parseModuleCst (module_cst.ts): lossless, line kinds and spans, scoping and
+// SELECT / PRODUCE item boundaries, checked against the parser.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { cstItemFields, findCstActivity, parseModuleCst } from "../module-parser/module_cst";
+import { parseModuleFile } from "../module-parser/module_parser";
+
+const MODULES = [
+  "module-convert/format-comparison/lesson-1A.gold.module",
+  "module-convert/format-comparison/1A.prev.module",
+  "module-convert/format-comparison/1A.new.module",
+  "module-convert/format-comparison/3A.new.module",
+  "module-convert/format-comparison/ST-L4.new.module",
+  "lr-cursor-extension/samples/sample.module",
+];
+
+test("lossless: the lines join back to the text", async (t) => {
+  for (const file of MODULES) {
+    await t.test(file, () => {
+      const text = fs.readFileSync(file, "utf8");
+      const cst = parseModuleCst(text);
+      assert.equal(cst.lines.map((l) => l.text).join("\n"), text);
+      assert.deepEqual(cst.lines.map((l) => l.line), cst.lines.map((_, i) => i + 1));
+    });
+  }
+});
+
+const TEXT = [
+  "$MODULE Title {cover.jpg}", //  1
+  "TARGET_LANG_G: fr", //          2
+  "", //                           3
+  "$DIALOGUE Before any lesson", // 4
+  "Jim: Salut ! {a.mp3}", //       5
+  "# note", //                     6
+  "$LESSON: One", //               7 malformed: does not open a lesson
+  "$LESSON Two", //                8
+  "$SELECT", //                    9
+  "MULTI", //                     10
+  "PROMPT: Le chat", //           11
+  "OPTION: a | cat", //           12
+  "ANSWER: a", //                 13
+  "TEMPLATE: ___", //             14 the item above is closed (ANSWER): a new one
+  "PROMPT: Le chien", //          15 joins it: the open item has no PROMPT yet
+  "ANSWER: b", //                 16
+  "PROMPT: La vache", //          17
+  "PROMPT: Le cheval", //         18 a second PROMPT opens a new item
+  "  PROMPT: indented", //        19
+].join("\n");
+
+test("line kinds and spans", () => {
+  const cst = parseModuleCst(TEXT);
+  assert.deepEqual(
+    cst.lines.map((l) => l.kind),
+    ["marker", "field", "blank", "marker", "speaker", "comment", "marker", "marker", "marker", "flag",
+      "field", "field", "field", "field", "field", "field", "field", "field", "content"],
+  );
+  const module = cst.lines[0];
+  assert.ok(module.kind === "marker");
+  assert.equal(module.title, "Title");
+  assert.equal(module.image, "cover.jpg");
+  const speaker = cst.lines[4];
+  assert.ok(speaker.kind === "speaker");
+  assert.equal(speaker.speaker, "Jim");
+  assert.equal(TEXT.split("\n")[4].slice(speaker.valueSpan.start, speaker.valueSpan.end), "Salut ! {a.mp3}");
+  assert.deepEqual(speaker.assets.map((a) => [a.file, a.kind, a.trailing]), [["a.mp3", "audio", true]]);
+  const malformed = cst.lines[6];
+  assert.ok(malformed.kind === "marker");
+  assert.equal(malformed.name, null);
+});
+
+test("scoping: implicit lesson, activity ranges, malformed markers", () => {
+  const cst = parseModuleCst(TEXT);
+  assert.deepEqual(cst.header.map((l) => l.line), [1, 2, 3]);
+  assert.deepEqual(cst.lessons.map((l) => [l.title, l.marker?.line ?? null, l.startLine, l.endLine]), [
+    ["Default Lesson", null, 4, 7],
+    ["Two", 8, 8, 19],
+  ]);
+  assert.deepEqual(
+    cst.lessons.flatMap((l) => l.activities.map((a) => [a.type, a.title, a.startLine, a.endLine])),
+    [["DIALOGUE", "Before any lesson", 4, 7], ["SELECT", "Select", 9, 19]],
+  );
+  assert.equal(findCstActivity(cst, 6)?.type, "DIALOGUE");
+  assert.equal(findCstActivity(cst, 8), null);
+  assert.equal(findCstActivity(cst, 19)?.type, "SELECT");
+});
+
+test("cstItemFields splits items the way the parser does", () => {
+  const select = parseModuleCst(TEXT).lessons[1].activities[0];
+  assert.deepEqual(cstItemFields(select).map((fields) => fields.map((f) => f.line)), [
+    [11, 12, 13],
+    [14, 15, 16],
+    [17],
+    [18],
+  ]);
+});
+
+test("cstItemFields: only an ANSWER that lists an option closes a SELECT item", () => {
+  const text = [
+    "$SELECT", //                 1
+    "PROMPT: Le chat", //         2
+    "ANSWER:", //                 3 empty: the item stays open
+    "TEMPLATE: ___", //           4 joins it
+    "ANSWER: a", //               5
+    "ANSWER: ,", //               6 the last ANSWER counts: open again
+    "TEMPLATE: ___ bis", //       7 a second TEMPLATE opens a new item
+    "ANSWER: b", //               8
+    "TEMPLATE: ___ ter", //       9 closed above: a new item
+  ].join("\n");
+  const select = parseModuleCst(text).lessons[0].activities[0];
+  const items = cstItemFields(select).map((fields) => fields.map((f) => f.line));
+  assert.deepEqual(items, [[2, 3, 4, 5, 6], [7, 8], [9]]);
+  const parsed = parseModuleFile(`$MODULE T\nTARGET_LANG_G: fr\nHOME_LANG_G: en\n${text}`).lessons[0].activities[0];
+  assert.ok(parsed.type === "SELECT");
+  assert.equal(parsed.items.length, items.length);
+});
+
+test("a $MODULE line inside an activity stays in it, as the parser reads it", () => {
+  const text = "$MODULE Title\nTARGET_LANG_G: fr\nHOME_LANG_G: en\n$DIALOGUE Hi\nJim: Salut.\n$MODULE Retitled\nJim: Encore.\n";
+  const cst = parseModuleCst(text);
+  const dialogue = cst.lessons[0].activities[0];
+  assert.deepEqual([dialogue.startLine, dialogue.endLine], [4, 8]);
+  assert.equal(findCstActivity(cst, 7)?.type, "DIALOGUE");
+  const module = parseModuleFile(text);
+  assert.equal(module.title, "Retitled");
+  const parsed = module.lessons[0].activities[0];
+  assert.ok(parsed.type === "DIALOGUE");
+  assert.deepEqual(parsed.lines.map((l) => l.text), ["Salut.", "Encore."]);
+});
@@ -0,0 +1,50 @@
+// Quick fixes (module_diagnostics.ts) on test/fixtures/quickfix/fixable.module,
+// which has one problem of every fixable code.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { applyQuickFix, FIXABLE_CODES, getQuickFix, lintModuleText } from "../module-parser/module_diagnostics";
+import { parseModuleCst } from "../module-parser/module_cst";
+
+const BROKEN = fs.readFileSync("test/fixtures/quickfix/fixable.module", "utf8");
+const FIXED = fs.readFileSync("test/fixtures/quickfix/fixable.fixed.module", "utf8");
+
+test("the fixture has every fixable code", () => {
+  const codes = new Set(lintModuleText(BROKEN).map((d) => d.code));
+  assert.deepEqual([...FIXABLE_CODES].filter((c) => !codes.has(c)), []);
+});
+
+test("each fix removes its diagnostic and adds no error", async (t) => {
+  const diags = lintModuleText(BROKEN).filter((d) => d.code && FIXABLE_CODES.has(d.code));
+  const errors = (text: string) => lintModuleText(text).filter((d) => d.severity === "error").map((d) => d.code);
+  for (const diag of diags) {
+    await t.test(`${diag.code} (line ${diag.line})`, () => {
+      const fix = getQuickFix(BROKEN, diag);
+      assert.ok(fix, "has a fix");
+      assert.equal(fix.code, diag.code);
+      const fixed = applyQuickFix(BROKEN, fix);
+      const count = (text: string) => lintModuleText(text).filter((d) => d.code === diag.code).length;
+      assert.equal(count(fixed), count(BROKEN) - 1);
+      assert.deepEqual(errors(fixed).filter((c) => !errors(BROKEN).includes(c)), []);
+    });
+  }
+});
+
+test("getQuickFix gives the same fix with a prebuilt CST", () => {
+  const cst = parseModuleCst(BROKEN);
+  for (const diag of lintModuleText(BROKEN)) {
+    assert.deepEqual(getQuickFix(BROKEN, diag, cst), getQuickFix(BROKEN, diag));
+  }
+});
+
+test("fixing one diagnostic at a time ends at the fixed fixture", () => {
+  let text = BROKEN;
+  for (let round = 0; round < 20; round++) {
+    const diag = lintModuleText(text).find((d) => d.code && FIXABLE_CODES.has(d.code));
+    const fix = diag && getQuickFix(text, diag);
+    if (!fix) break;
+    text = applyQuickFix(text, fix);
+  }
+  assert.equal(text, FIXED);
+  assert.deepEqual(lintModuleText(text).map((d) => d.code), ["missing-dioco-doc-id"]);
+});
@@ -0,0 +1,70 @@
+// diffModules (module_diff.ts): what each kind of edit shows up as.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { countChanges, diffModules } from "../module-parser/module_diff";
+import { parseModuleFile } from "../module-parser/module_parser";
+
+const BASE = `$MODULE Diff
+TARGET_LANG_G: fr
+HOME_LANG_G: en
+
+$LESSON One
+
+$DIALOGUE Greetings
+
+Jim: Bonjour. {g1.mp3}
+Ann: Salut.
+Jim: Ça va ?
+
+$SELECT Pick
+
+PROMPT: Le chat
+OPTION: a | cat
+OPTION: b | dog
+ANSWER: a
+
+PROMPT: Le chien
+OPTION: a | cat
+OPTION: b | dog
+ANSWER: b
+`;
+
+const changes = (body: string) =>
+  diffModules(parseModuleFile(BASE), parseModuleFile(body)).changes.map((c) => [c.kind, c.where, c.label, c.before, c.after]);
+
+test("a module against itself has no changes", async (t) => {
+  for (const file of ["module-convert/format-comparison/lesson-1A.gold.module", "lr-cursor-extension/samples/sample.module"]) {
+    await t.test(file, () => {
+      const module = parseModuleFile(fs.readFileSync(file, "utf8"));
+      const diff = diffModules(module, module);
+      assert.deepEqual(diff.fields, []);
+      assert.deepEqual(diff.changes, []);
+    });
+  }
+});
+
+test("each edit is one change", async (t) => {
+  const cases: [string, string, unknown[]][] = [
+    ["retitling an activity", BASE.replace("$DIALOGUE Greetings", "$DIALOGUE Hellos"),
+      ["changed", "one / dialogue-hellos", "title", "Greetings", "Hellos"]],
+    ["rewording a line", BASE.replace("Ann: Salut.", "Ann: Salut !"),
+      ["changed", "one / dialogue-greetings / line 2", "text", "Salut.", "Salut !"]],
+    ["adding a line", BASE.replace("Jim: Ça va ?", "Jim: Ça va ?\nAnn: Oui."),
+      ["added", "one / dialogue-greetings / line 4", null, null, null]],
+    ["removing a line", BASE.replace("Ann: Salut.\n", ""),
+      ["removed", "one / dialogue-greetings / line 2", null, null, null]],
+    ["swapping two lines", BASE.replace("Jim: Bonjour. {g1.mp3}\nAnn: Salut.", "Ann: Salut.\nJim: Bonjour. {g1.mp3}"),
+      ["moved", "one / dialogue-greetings / line 2", "was line 1", null, null]],
+    ["changing an answer", BASE.replace("ANSWER: b", "ANSWER: a"),
+      ["changed", "one / select-pick / item 2", "ANSWER", "b", "a"]],
+  ];
+  for (const [name, body, change] of cases) {
+    await t.test(name, () => assert.deepEqual(changes(body), [change]));
+  }
+});
+
+test("countChanges", () => {
+  const diff = diffModules(parseModuleFile(BASE), parseModuleFile(BASE.replace("Ann: Salut.\n", "").replace("ANSWER: b", "ANSWER: a")));
+  assert.deepEqual(countChanges(diff), { added: 0, removed: 1, moved: 0, changed: 1 });
+});
@@ -0,0 +1,74 @@
+// moduleFlashcards (module_flashcards.ts): which edits keep a card's GUID.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { moduleFlashcards } from "../module-parser/module_flashcards";
+import { parseModuleFile } from "../module-parser/module_parser";
+
+const HEADER = "$MODULE Cards\nTARGET_LANG_G: fr\nHOME_LANG_G: en\n\n$LESSON One\n";
+
+const cards = (body: string, header = HEADER) => moduleFlashcards(parseModuleFile(header + body), "cards");
+
+const BASE = `
+$DIALOGUE Greetings
+REPEAT
+
+VOCAB: bonjour
+LINE: Bonjour. {g1.mp3}
+
+LINE: Salut.
+
+$DIALOGUE Farewells
+REPEAT
+
+LINE: Au revoir. {f1.mp3}
+
+LINE: À bientôt.
+`;
+
+test("two untitled dialogues in one lesson get distinct GUIDs", () => {
+  const body = "\n$DIALOGUE\nREPEAT\n\nLINE: Salut.\n\n$DIALOGUE\nREPEAT\n\nLINE: Salut.\n";
+  const ids = cards(body).map((c) => c.guid);
+  assert.equal(ids.length, 2);
+  assert.equal(new Set(ids).size, 2);
+});
+
+test("a repeated line or clip is numbered, not merged", () => {
+  const ids = cards("\n$DIALOGUE\nREPEAT\n\nLINE: Oui. {o.mp3}\n\nLINE: Oui. {o.mp3}\n\nLINE: Non.\n\nLINE: Non.\n").map((c) => c.guid);
+  assert.equal(new Set(ids).size, 4);
+});
+
+test("GUIDs are the same from one export to the next", () => {
+  assert.deepEqual(cards(BASE), cards(BASE));
+});
+
+test("edits that keep every card", async (t) => {
+  const before = cards(BASE).map((c) => c.guid);
+  const edits: [string, ReturnType<typeof cards>][] = [
+    ["retitling an activity", cards(BASE.replace("$DIALOGUE Greetings", "$DIALOGUE Hellos"))],
+    ["retitling the lesson and module", cards(BASE, HEADER.replace("Cards", "Flashcards").replace("One", "Un"))],
+    ["rewording a line with a clip", cards(BASE.replace("Bonjour. {g1.mp3}", "Bonjour ! {g1.mp3}"))],
+    ["changing case and punctuation of a clip-less line", cards(BASE.replace("LINE: Salut.", "LINE: salut !"))],
+    ["inserting a line", cards(BASE.replace("LINE: Salut.", "LINE: Ça va ?\n\nLINE: Salut."))],
+  ];
+  for (const [name, after] of edits) {
+    await t.test(name, () => {
+      const ids = new Set(after.map((c) => c.guid));
+      assert.deepEqual(before.filter((id) => !ids.has(id)), []);
+    });
+  }
+});
+
+test("edits that make a new card, for the edited line only", async (t) => {
+  const before = cards(BASE);
+  const edits: [string, string, string][] = [
+    ["renaming a clip", BASE.replace("{g1.mp3}", "{g1-new.mp3}"), "Bonjour."],
+    ["rewording a clip-less line", BASE.replace("LINE: Salut.", "LINE: Salut, toi."), "Salut, toi."],
+  ];
+  for (const [name, body, front] of edits) {
+    await t.test(name, () => {
+      const after = cards(body);
+      const changed = after.filter((c, i) => c.guid !== before[i].guid).map((c) => c.front);
+      assert.deepEqual(changed, [front]);
+    });
+  }
+});
@@ -0,0 +1,34 @@
+// parseGradingReply (module_grading.ts): what counts as a model's verdict.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseGradingReply } from "../module-parser/module_grading";
+
+test("parseGradingReply reads a verdict", async (t) => {
+  const cases: [string, string, { verdict: string; feedback: string }][] = [
+    // [name, reply, result]
+    ["JSON", '{"verdict": "partial", "feedback": "Use the past tense. "}', { verdict: "partial", feedback: "Use the past tense." }],
+    ["JSON in a code fence", '```json\n{"verdict": "correct", "feedback": "Good."}\n```', { verdict: "correct", feedback: "Good." }],
+    ["JSON after prose", 'Here is my grade:\n{"verdict": "INCORRECT", "feedback": "Wrong verb."}', { verdict: "incorrect", feedback: "Wrong verb." }],
+    ["JSON without feedback", '{"verdict": "correct"}', { verdict: "correct", feedback: "" }],
+    ["broken JSON with its verdict key", '{"verdict": "incorrect", "feedback": "x",}', { verdict: "incorrect", feedback: "" }],
+    ["label", "Verdict: partial\nThe article is missing.", { verdict: "partial", feedback: "" }],
+    ["label after a question", "Is this correct? Verdict: incorrect", { verdict: "incorrect", feedback: "" }],
+    ["markdown label", '**Verdict:** "correct"', { verdict: "correct", feedback: "" }],
+  ];
+  for (const [name, reply, expected] of cases) {
+    await t.test(name, () => assert.deepEqual(parseGradingReply(reply), expected));
+  }
+});
+
+test("parseGradingReply throws without a verdict", async (t) => {
+  const cases: [string, string][] = [
+    ["negated prose", "Not correct: the verb is wrong."],
+    ["question only", "Is this correct?"],
+    ["bare word", "correct"],
+    ["JSON with an unknown verdict", '{"verdict": "wrong", "feedback": "No."}'],
+    ["empty", ""],
+  ];
+  for (const [name, reply] of cases) {
+    await t.test(name, () => assert.throws(() => parseGradingReply(reply), /no verdict/));
+  }
+});
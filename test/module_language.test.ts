@@ -0,0 +1,24 @@
+// formatModuleText (module_language.ts) against test/fixtures/format/:
+// `<name>.in.module` formats to `<name>.out.module`, which is already formatted,
+// and formatting never changes what the parser reads.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { formatModuleText } from "../module-parser/module_language";
+import { parseModuleFile } from "../module-parser/module_parser";
+
+const FIXTURES = path.resolve("test/fixtures/format");
+
+test("formatModuleText fixtures", async (t) => {
+  for (const name of fs.readdirSync(FIXTURES).filter((n) => n.endsWith(".in.module")).sort()) {
+    const input = fs.readFileSync(path.join(FIXTURES, name), "utf8");
+    const expected = fs.readFileSync(path.join(FIXTURES, name.replace(".in.", ".out.")), "utf8");
+    await t.test(name, () => {
+      const formatted = formatModuleText(input);
+      assert.equal(formatted, expected);
+      assert.equal(formatModuleText(formatted), formatted, "formatting is idempotent");
+      assert.deepEqual(parseModuleFile(formatted), parseModuleFile(input), "the parse is unchanged");
+    });
+  }
+});
@@ -0,0 +1,87 @@
+// parseModuleFileTolerant (module_parser.ts) on half-finished modules, as a
+// live preview sees them while an author types: what is still returned, and
+// which errors are collected (the rest is the linter's to report).
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { lintModuleText } from "../module-parser/module_diagnostics";
+import { parseModuleFile, parseModuleFileTolerant } from "../module-parser/module_parser";
+import type { Module } from "../module-parser/module_types";
+
+const HEADER = "$MODULE Typing\nTARGET_LANG_G: fr\nHOME_LANG_G: en\n\n";
+
+// [lesson, [[activity type, title, [prompt or line text, answer or response]]]]
+const outline = (module: Module) =>
+  module.lessons.map((l) => [
+    l.title,
+    l.activities.map((a) => [
+      a.type,
+      a.title,
+      a.type === "SELECT" ? a.items.map((i) => [i.prompt, i.answer])
+        : a.type === "PRODUCE" ? a.items.map((i) => [i.prompt, i.response])
+        : a.type === "DIALOGUE" ? a.lines.map((l) => [l.text, null])
+        : [],
+    ]),
+  ]);
+
+test("an unterminated item is kept, with what it has so far", async (t) => {
+  await t.test("SELECT, mid-OPTION", () => {
+    const text = `${HEADER}$LESSON One\n\n$SELECT Pick\nPROMPT: Le chat\nOPTION: a | cat\nOPTION: b | dog\nANSWER: a\n\nPROMPT: Le chien\nOPTION: a | ca`;
+    const { module, errors } = parseModuleFileTolerant(text);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(outline(module), [["One", [["SELECT", "Pick", [["Le chat", ["a"]], ["Le chien", []]]]]]]);
+    const select = module.lessons[0].activities[0];
+    assert.ok(select.type === "SELECT");
+    assert.deepEqual(select.items[1].options?.map((o) => o.text), ["ca"]);
+  });
+  await t.test("PRODUCE, no RESPONSE yet", () => {
+    const { module, errors } = parseModuleFileTolerant(`${HEADER}$LESSON One\n\n$PRODUCE Say\nPROMPT: Hello\nRESPONSE: Bonjour\n\nPROMPT: Bye\n`);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(outline(module), [["One", [["PRODUCE", "Say", [["Hello", "Bonjour"], ["Bye", null]]]]]]);
+  });
+});
+
+test("a missing ANSWER: leaves the item unanswered, its neighbours intact", () => {
+  const text = `${HEADER}$LESSON One\n\n$SELECT Pick\nPROMPT: Le chat\nOPTION: a | cat\nOPTION: b | dog\n\nPROMPT: Le chien\nOPTION: a | cat\nOPTION: b | dog\nANSWER: b\n\n$DIALOGUE Hi\nJim: Salut.\n`;
+  const { module, errors } = parseModuleFileTolerant(text);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(outline(module), [
+    ["One", [["SELECT", "Pick", [["Le chat", []], ["Le chien", ["b"]]]], ["DIALOGUE", "Hi", [["Salut.", null]]]]],
+  ]);
+  // Reported by the linter instead, on the item's PROMPT.
+  assert.deepEqual(lintModuleText(text).filter((d) => d.code === "select-missing-answer").map((d) => d.line), [8]);
+});
+
+test("a stray field before $LESSON is ignored, not read into an activity", async (t) => {
+  await t.test("in the header", () => {
+    const text = "$MODULE Typing\nTARGET_LANG_G: fr\nPROMPT: stray\nHOME_LANG_G: en\n\n$LESSON One\n\n$DIALOGUE Hi\nJim: Salut.\n";
+    const { module, errors } = parseModuleFileTolerant(text);
+    assert.deepEqual(errors, []);
+    assert.equal(module.homeLang_G, "en");
+    assert.deepEqual(outline(module), [["One", [["DIALOGUE", "Hi", [["Salut.", null]]]]]]);
+  });
+  await t.test("with the header still being typed", () => {
+    const text = "$MODULE Typing\nTARGET_LANG_G: fr\nANSWER: a\n\n$LESSON One\n\n$DIALOGUE Hi\nJim: Salut.\n";
+    const { module, errors } = parseModuleFileTolerant(text);
+    assert.deepEqual(errors, [{ line: 1, message: "Missing HOME_LANG_G in .module file" }]);
+    assert.equal(module.homeLang_G, "");
+    assert.deepEqual(outline(module), [["One", [["DIALOGUE", "Hi", [["Salut.", null]]]]]]);
+    assert.throws(() => parseModuleFile(text), /Missing HOME_LANG_G/);
+  });
+});
+
+test("every missing header field is collected, and the lessons still returned", () => {
+  const { module, errors } = parseModuleFileTolerant("$LESSON One\n\n$DIALOGUE Hi\nJim: Salut.\n");
+  assert.deepEqual(errors.map((e) => [e.line, e.message]), [
+    [1, "Missing TITLE in .module file"],
+    [1, "Missing TARGET_LANG_G in .module file"],
+    [1, "Missing HOME_LANG_G in .module file"],
+  ]);
+  assert.deepEqual(outline(module), [["One", [["DIALOGUE", "Hi", [["Salut.", null]]]]]]);
+});
+
+test("with no errors, the tolerant parse is parseModuleFile's", () => {
+  const text = `${HEADER}$LESSON One\n\n$SELECT Pick\nPROMPT: Le chat\nOPTION: a | cat\nANSWER: a\n\nPROMPT: Le chien\n`;
+  const { module, errors } = parseModuleFileTolerant(text);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(module, parseModuleFile(text));
+});
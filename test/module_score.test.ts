@@ -0,0 +1,39 @@
+// The word-overlap measure diffModules and scoreModule share, and scoreModule
+// on the gold worked example (module_score.ts, module_diff.ts).
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { overlap, textWords } from "../module-parser/module_diff";
+import { scoreModule, textSimilarity } from "../module-parser/module_score";
+import { parseModuleFile } from "../module-parser/module_parser";
+
+test("textWords", () => {
+  assert.deepEqual(textWords("It's 5 o'clock — Élise, déjà!"), ["it's", "5", "o'clock", "élise", "déjà"]);
+  assert.deepEqual(textWords(" … "), []);
+});
+
+test("overlap", async (t) => {
+  const cases: [string, string[], string[], number][] = [
+    ["identical", ["a", "b"], ["b", "a"], 1],
+    ["disjoint", ["a"], ["b"], 0],
+    ["half", ["a", "b"], ["b", "c", "a", "d"], 0.5],
+    ["duplicates count once", ["a", "a", "b"], ["a", "b"], 1],
+    ["both empty", [], [], 1],
+    ["one empty", ["a"], [], 0],
+  ];
+  for (const [name, x, y, expected] of cases) {
+    await t.test(name, () => assert.equal(overlap(x, y), expected));
+  }
+});
+
+test("textSimilarity is the overlap of the texts' words", () => {
+  assert.equal(textSimilarity("Where is the station?", "where is THE bus station"), 0.8);
+  assert.equal(textSimilarity("", ""), 1);
+});
+
+test("scoreModule: a gold module against itself scores 1", () => {
+  const gold = parseModuleFile(fs.readFileSync("module-convert/format-comparison/lesson-1A.gold.module", "utf8"));
+  const score = scoreModule(gold, gold);
+  assert.equal(score.overall, 1);
+  assert.deepEqual(score.notes, []);
+});
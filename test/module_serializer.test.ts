@@ -0,0 +1,40 @@
+// serializeModule (module_serializer.ts) is the inverse of parseModuleFile, on
+// the worked examples and the extension's sample.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { parseModuleFile } from "../module-parser/module_parser";
+import { serializeModule } from "../module-parser/module_serializer";
+
+const MODULES = [
+  "module-convert/format-comparison/lesson-1A.gold.module",
+  "module-convert/format-comparison/1A.new.module",
+  "module-convert/format-comparison/3A.new.module",
+  "module-convert/format-comparison/ST-L4.new.module",
+  "lr-cursor-extension/samples/sample.module",
+];
+
+test("parseModuleFile(serializeModule(m)) equals m", async (t) => {
+  for (const file of MODULES) {
+    await t.test(file, () => {
+      const module = parseModuleFile(fs.readFileSync(file, "utf8"));
+      const text = serializeModule(module);
+      assert.deepEqual(parseModuleFile(text), module);
+      assert.equal(serializeModule(parseModuleFile(text)), text, "serializing is idempotent");
+    });
+  }
+});
+
+test("serializeModule writes the canonical layout", () => {
+  const text = "$MODULE  Title\nHOME_LANG_G: en\nTARGET_LANG_G: fr\n\n$LESSON One\n$SELECT Pick\nPROMPT: Le chat {cat.mp3} {cat.jpg}\nOPTION: a|cat\nOPTION: b |dog\nANSWER: a\nPROMPT: Le chien\nOPTION: a | cat\nOPTION: b | dog\nANSWER: b\n";
+  assert.equal(
+    serializeModule(parseModuleFile(text)),
+    [
+      "$MODULE Title", "FORMAT: 2", "TARGET_LANG_G: fr", "HOME_LANG_G: en", "",
+      "$LESSON One", "",
+      "$SELECT Pick", "",
+      "PROMPT: Le chat {cat.jpg} {cat.mp3}", "OPTION: a | cat", "OPTION: b | dog", "ANSWER: a", "",
+      "PROMPT: Le chien", "OPTION: a | cat", "OPTION: b | dog", "ANSWER: b", "",
+    ].join("\n"),
+  );
+});